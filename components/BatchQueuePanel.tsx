@@ -0,0 +1,186 @@
+import React, { useState } from 'react';
+import type { BatchItem, BatchItemStatus } from '../types';
+import { BATCH_CONCURRENCY_OPTIONS, isBatchItemRunnable } from '../services/batchQueue';
+import { FileUpload } from './FileUpload';
+import { CheckCircleIcon, CubeIcon, SparklesIcon, TrashIcon, UploadIcon } from './icons';
+
+interface BatchQueuePanelProps {
+  items: BatchItem[];
+  isRunning: boolean;
+  concurrency: number;
+  maxVariations: number;
+  onConcurrencyChange: (concurrency: number) => void;
+  onAddFiles: (files: File[]) => void;
+  onItemChange: (id: string, changes: Partial<BatchItem>) => void;
+  onRemoveItem: (id: string) => void;
+  onStart: () => void;
+  onCancel: () => void;
+  onViewItem: (id: string) => void;
+  onClose: () => void;
+}
+
+const STATUS_CLASSES: Record<BatchItemStatus, string> = {
+  pending: 'text-content-muted',
+  running: 'text-brand-primary animate-pulse',
+  succeeded: 'text-brand-primary',
+  failed: 'text-red-400',
+  cancelled: 'text-yellow-400',
+};
+
+const statusLabel = (item: BatchItem) => {
+  if (item.status === 'running') return item.pipelineStatus?.currentStage ?? 'Submitting...';
+  if (item.status === 'succeeded') return `${item.results.length} variation${item.results.length === 1 ? '' : 's'}`;
+  return item.status.charAt(0).toUpperCase() + item.status.slice(1);
+};
+
+/**
+ * Queue of sketches generated one after another (or a few at a time), each with its own
+ * prompt and variation count. Sketches can be picked several at once or dropped onto the panel.
+ */
+export const BatchQueuePanel: React.FC<BatchQueuePanelProps> = (props) => {
+  const [isDragOver, setIsDragOver] = useState(false);
+  const runnableCount = props.items.filter(isBatchItemRunnable).length;
+  const doneCount = props.items.filter((item) => item.status === 'succeeded').length;
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragOver(false);
+    const files = Array.from(e.dataTransfer.files).filter((file) => file.type.startsWith('image/'));
+    if (files.length > 0) props.onAddFiles(files);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-base-100/80 backdrop-blur-md z-40 flex items-center justify-center animate-fade-in p-4">
+      <div
+        onDragOver={(e) => {
+          e.preventDefault();
+          setIsDragOver(true);
+        }}
+        onDragLeave={() => setIsDragOver(false)}
+        onDrop={handleDrop}
+        className={`w-full max-w-3xl max-h-[85vh] bg-base-200/90 border rounded-lg shadow-2xl p-6 flex flex-col gap-4 transition-colors ${
+          isDragOver ? 'border-brand-primary' : 'border-base-300'
+        }`}
+      >
+        <div className="flex items-center justify-between gap-3">
+          <div className="flex items-center gap-3">
+            <CubeIcon className="w-6 h-6 text-brand-primary" />
+            <h2 className="text-lg font-bold">Batch generation</h2>
+            {props.items.length > 0 && (
+              <span className="text-sm text-content-muted">{doneCount} of {props.items.length} done</span>
+            )}
+          </div>
+          <button onClick={props.onClose} className="text-sm text-content-muted hover:text-white transition-colors">
+            {props.isRunning ? 'Hide' : 'Close'}
+          </button>
+        </div>
+
+        <ul className="flex-1 overflow-y-auto flex flex-col gap-2 min-h-[8rem]">
+          {props.items.length === 0 && (
+            <li className="flex-1 flex items-center justify-center rounded-md border-2 border-dashed border-base-300 text-sm text-content-muted p-8">
+              Drop sketches here or add them below.
+            </li>
+          )}
+          {props.items.map((item) => {
+            const isLocked = props.isRunning || item.status === 'running';
+            return (
+              <li key={item.id} className="flex items-center gap-3 bg-base-300/40 rounded-md p-2">
+                <img src={item.preview} alt={item.file.name} className="h-14 w-14 object-cover rounded-md border-2 border-base-300 bg-white flex-shrink-0" />
+                <div className="flex-1 min-w-0 flex flex-col gap-1">
+                  <input
+                    type="text"
+                    value={item.prompt}
+                    disabled={isLocked}
+                    onChange={(e) => props.onItemChange(item.id, { prompt: e.target.value })}
+                    placeholder={`Describe ${item.file.name}`}
+                    className="w-full bg-base-300/70 text-content border border-base-300 rounded-full py-1 px-3 text-sm focus:ring-2 focus:ring-brand-primary focus:outline-none placeholder:text-content-muted disabled:opacity-60"
+                  />
+                  <span
+                    className={`text-xs truncate ${STATUS_CLASSES[item.status]}`}
+                    title={item.message ?? undefined}
+                  >
+                    {statusLabel(item)}{item.message && item.status === 'failed' ? `: ${item.message}` : ''}
+                  </span>
+                </div>
+                <label className="flex items-center gap-1 text-xs text-content-muted" title="Variations">
+                  <input
+                    type="number"
+                    min={1}
+                    max={props.maxVariations}
+                    value={Math.min(item.variations, props.maxVariations)}
+                    disabled={isLocked}
+                    onChange={(e) => {
+                      const count = parseInt(e.target.value, 10);
+                      if (Number.isFinite(count)) props.onItemChange(item.id, { variations: Math.min(props.maxVariations, Math.max(1, count)) });
+                    }}
+                    className="w-12 bg-base-300/70 text-content border border-base-300 rounded-full py-1 px-2 text-sm text-center focus:ring-2 focus:ring-brand-primary focus:outline-none disabled:opacity-60"
+                  />
+                  ×
+                </label>
+                {item.status === 'succeeded' && (
+                  <button
+                    onClick={() => props.onViewItem(item.id)}
+                    className="text-sm font-bold text-brand-primary hover:underline px-2"
+                  >
+                    View
+                  </button>
+                )}
+                <button
+                  onClick={() => props.onRemoveItem(item.id)}
+                  disabled={isLocked}
+                  title="Remove from the batch"
+                  className="p-2 rounded-full text-content-muted hover:text-red-400 transition-colors disabled:opacity-40"
+                >
+                  <TrashIcon className="w-4 h-4" />
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+
+        <div className="flex items-center justify-between gap-3">
+          <div className="flex items-center gap-3">
+            <FileUpload
+              multiple
+              onFilesChange={props.onAddFiles}
+              className="bg-base-300/80 hover:bg-base-300 text-content font-bold py-2 px-4 rounded-full flex items-center transition-colors text-sm"
+            >
+              <UploadIcon className="w-4 h-4 mr-2" />
+              Add sketches
+            </FileUpload>
+            <label htmlFor="batch-concurrency" className="text-sm text-content-muted">At once</label>
+            <select
+              id="batch-concurrency"
+              value={props.concurrency}
+              disabled={props.isRunning}
+              onChange={(e) => props.onConcurrencyChange(parseInt(e.target.value, 10))}
+              className="bg-base-300/70 text-content border border-base-300 rounded-full py-1.5 px-3 text-sm focus:ring-2 focus:ring-brand-primary focus:outline-none"
+            >
+              {BATCH_CONCURRENCY_OPTIONS.map((count) => <option key={count} value={count}>{count}</option>)}
+            </select>
+          </div>
+          {props.isRunning ? (
+            <button
+              onClick={props.onCancel}
+              className="bg-red-600/50 hover:bg-red-600 text-white font-bold py-2 px-5 rounded-full transition-colors duration-300"
+            >
+              Cancel batch
+            </button>
+          ) : (
+            <button
+              onClick={props.onStart}
+              disabled={runnableCount === 0}
+              className="bg-brand-primary/80 hover:bg-brand-primary text-black font-bold py-2 px-5 rounded-full flex items-center justify-center transition-all duration-300 shadow-lg focus:outline-none focus:ring-4 focus:ring-brand-primary/50 disabled:opacity-50"
+            >
+              {runnableCount === 0 && props.items.length > 0 ? (
+                <><CheckCircleIcon className="w-5 h-5 mr-2" />All done</>
+              ) : (
+                <><SparklesIcon className="w-5 h-5 mr-2" />Generate {runnableCount}</>
+              )}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
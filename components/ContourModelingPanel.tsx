@@ -0,0 +1,143 @@
+import React, { useState } from 'react';
+import type { ContourModelingRequest, ContourOperation, ExtrudeParams, RevolveAxis, RevolveParams } from '../types';
+import { CheckCircleIcon, CubeIcon } from './icons';
+
+interface ContourModelingPanelProps {
+  sketchPreview: string | null;
+  isBuilding: boolean;
+  onBuild: (request: ContourModelingRequest) => void;
+  onCancel: () => void;
+}
+
+const DEFAULT_EXTRUDE: ExtrudeParams = { depth: 0.5 };
+const DEFAULT_REVOLVE: RevolveParams = { axis: 'vertical', axisPosition: 50, angle: 360, segments: 48 };
+
+const NumberField: React.FC<{
+  id: string;
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  step: number;
+  unit?: string;
+  onChange: (value: number) => void;
+}> = ({ id, label, value, min, max, step, unit, onChange }) => (
+  <div className="flex items-center justify-between gap-4">
+    <label htmlFor={id} className="text-sm font-medium text-content-muted">{label}</label>
+    <div className="flex items-center gap-2">
+      <input
+        id={id}
+        type="number"
+        value={value}
+        min={min}
+        max={max}
+        step={step}
+        onChange={(e) => {
+          const parsed = parseFloat(e.target.value);
+          if (Number.isFinite(parsed)) onChange(Math.min(max, Math.max(min, parsed)));
+        }}
+        className="w-24 bg-base-300/70 text-content border border-base-300 rounded-full py-1.5 px-3 text-sm text-right focus:ring-2 focus:ring-brand-primary focus:outline-none"
+      />
+      <span className="w-8 text-xs text-content-muted">{unit}</span>
+    </div>
+  </div>
+);
+
+/**
+ * Parametric alternative to generation for mechanical profiles: the sketch's closed contours
+ * are extruded to a depth or revolved around an axis.
+ */
+export const ContourModelingPanel: React.FC<ContourModelingPanelProps> = ({ sketchPreview, isBuilding, onBuild, onCancel }) => {
+  const [operation, setOperation] = useState<ContourOperation>('extrude');
+  const [extrude, setExtrude] = useState<ExtrudeParams>(DEFAULT_EXTRUDE);
+  const [revolve, setRevolve] = useState<RevolveParams>(DEFAULT_REVOLVE);
+
+  const handleBuild = () => {
+    onBuild(operation === 'extrude' ? { operation, params: extrude } : { operation, params: revolve });
+  };
+
+  const tabClass = (tab: ContourOperation) =>
+    `flex-1 py-2 rounded-full text-sm font-bold transition-colors ${
+      operation === tab ? 'bg-brand-primary text-black' : 'text-content-muted hover:text-content'
+    }`;
+
+  return (
+    <div className="fixed inset-0 bg-base-100/80 backdrop-blur-md z-40 flex items-center justify-center animate-fade-in p-4">
+      <div className="w-full max-w-md bg-base-200/90 border border-base-300 rounded-lg shadow-2xl p-6 flex flex-col gap-5">
+        <div className="flex items-center gap-3">
+          <CubeIcon className="w-6 h-6 text-brand-primary" />
+          <h2 className="text-lg font-bold">Extrude / Revolve</h2>
+        </div>
+
+        {sketchPreview && (
+          <img src={sketchPreview} alt="Sketch to model" className="w-full h-40 object-contain rounded-md bg-white" />
+        )}
+        <p className="text-xs text-content-muted">
+          Closed contours are traced from the sketch; outlines drawn inside another become holes. The sketch's longer side is 2 units.
+        </p>
+
+        <div className="flex bg-base-300/50 rounded-full p-1">
+          <button onClick={() => setOperation('extrude')} className={tabClass('extrude')}>Extrude</button>
+          <button onClick={() => setOperation('revolve')} className={tabClass('revolve')}>Revolve</button>
+        </div>
+
+        {operation === 'extrude' ? (
+          <NumberField
+            id="extrude-depth" label="Depth" unit="units"
+            value={extrude.depth} min={0.01} max={10} step={0.05}
+            onChange={(depth) => setExtrude({ depth })}
+          />
+        ) : (
+          <div className="flex flex-col gap-3">
+            <div className="flex items-center justify-between gap-4">
+              <label htmlFor="revolve-axis" className="text-sm font-medium text-content-muted">Axis</label>
+              <select
+                id="revolve-axis"
+                value={revolve.axis}
+                onChange={(e) => setRevolve({ ...revolve, axis: e.target.value as RevolveAxis })}
+                className="bg-base-300/70 text-content border border-base-300 rounded-full py-1.5 px-3 text-sm focus:ring-2 focus:ring-brand-primary focus:outline-none"
+              >
+                <option value="vertical">Vertical</option>
+                <option value="horizontal">Horizontal</option>
+              </select>
+            </div>
+            <NumberField
+              id="revolve-position"
+              label={revolve.axis === 'vertical' ? 'Axis position (from left)' : 'Axis position (from bottom)'}
+              unit="%"
+              value={revolve.axisPosition} min={0} max={100} step={1}
+              onChange={(axisPosition) => setRevolve({ ...revolve, axisPosition })}
+            />
+            <NumberField
+              id="revolve-angle" label="Angle" unit="°"
+              value={revolve.angle} min={1} max={360} step={5}
+              onChange={(angle) => setRevolve({ ...revolve, angle })}
+            />
+            <NumberField
+              id="revolve-segments" label="Segments"
+              value={revolve.segments} min={3} max={256} step={1}
+              onChange={(segments) => setRevolve({ ...revolve, segments: Math.round(segments) })}
+            />
+          </div>
+        )}
+
+        <div className="flex items-center justify-end gap-3 mt-2">
+          <button
+            onClick={onCancel}
+            className="bg-base-300 hover:bg-base-300/80 text-content font-bold py-2 px-5 rounded-full transition-colors duration-300"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleBuild}
+            disabled={isBuilding}
+            className="bg-brand-primary/80 hover:bg-brand-primary text-black font-bold py-2 px-5 rounded-full flex items-center justify-center transition-all duration-300 shadow-lg focus:outline-none focus:ring-4 focus:ring-brand-primary/50 disabled:opacity-50 disabled:cursor-wait"
+          >
+            <CheckCircleIcon className="w-5 h-5 mr-2" />
+            {isBuilding ? 'Building...' : 'Build'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,13 +1,20 @@
-import React, { useState, useEffect } from 'react';
-// import type { PipelineStatus } from '../types'; // <-- REMOVED
-// import { PipelineStage } from '../types'; // <-- REMOVED
-import type { WorkflowStep, ModelId } from './Workspace';
+import React from 'react';
+import type { DetailLevel, ExtraSketchView, GeneratedGeometry, ModelId, PipelineStatus, PromptOptions, PromptPreset, SketchView, StylePreset, WorkflowStep } from '../types';
+import { DETAIL_LEVEL_LABELS, EXTRA_SKETCH_VIEWS, MODEL_CAPABILITIES, MODEL_IDS, SKETCH_VIEW_LABELS, STYLE_PRESETS } from '../constants';
 import { FileUpload } from './FileUpload';
+import { PIPELINE_STAGES, formatDuration } from '../services/pipeline';
+import { MAX_SEED } from '../services/generationParams';
+import { formatRefinementStep, variationRound } from '../services/refinement';
 import {
   SparklesIcon,
   UndoIcon,
   UploadIcon,
   PencilIcon,
+  CheckCircleIcon,
+  CpuIcon,
+  CubeIcon,
+  TrashIcon,
+  LockIcon,
 } from './icons'; // Using consolidated icons
 
 /**
@@ -16,61 +23,89 @@ import {
  */
 interface ControlBarProps {
   onFileChange: (file: File | null) => void;
+  // Several sketches picked at once go to the batch queue
+  onBatchFiles: (files: File[]) => void;
   onGenerate: () => void;
+  onGenerateOffline: () => void;
+  onOpenContourModeling: () => void;
   onToggleDrawing: () => void;
+  extraViewPreviews: Partial<Record<ExtraSketchView, string>>;
+  onExtraViewChange: (view: ExtraSketchView, file: File | null) => void;
+  onDrawView: (view: SketchView) => void;
+  // The variation being refined, if any
+  refineTarget: { geometry: GeneratedGeometry; index: number } | null;
+  onCancelRefine: () => void;
+  onEditSketch: () => void;
   isGenerating: boolean;
-  // pipelineStatus: PipelineStatus; // <-- REMOVED
+  // The offline inflation runs in the browser, without job stages to show
+  isInflating: boolean;
+  pipelineStatus: PipelineStatus;
   sketchPreview: string | null;
   onStartOver: () => void; // Kept for the 'Generating' step
+  onCancelGeneration: () => void;
   numberOfVariations: number;
   onNumberOfVariationsChange: (count: number) => void;
+  lockedSeeds: (number | null)[];
+  onLockedSeedsChange: (seeds: (number | null)[]) => void;
+  modelId: ModelId;
+  onModelChange: (model: ModelId) => void;
   textPrompt: string;
   onTextPromptChange: (prompt: string) => void;
+  promptOptions: PromptOptions;
+  onPromptOptionsChange: (options: PromptOptions) => void;
+  promptPresets: PromptPreset[];
+  onApplyPreset: (preset: PromptPreset) => void;
+  onSavePreset: (name: string) => void;
+  onDeletePreset: (name: string) => void;
   workflowStep: WorkflowStep;
 }
 
-// --- NEW: List of loading messages ---
-const LOADING_MESSAGES = [
-  "Warming up AI generators...",
-  "Generating realistic 2D image...",
-  "Analyzing 2D photo...",
-  "Building 3D geometry...",
-  "Almost done...",
-];
-
-// --- UPDATED: GenerationProgress component ---
-const GenerationProgress: React.FC = () => {
-    // This component now manages its own text cycle
-    const [loadingText, setLoadingText] = useState(LOADING_MESSAGES[0]);
-
-    useEffect(() => {
-        let index = 0;
-        const interval = setInterval(() => {
-            index = (index + 1) % LOADING_MESSAGES.length;
-            setLoadingText(LOADING_MESSAGES[index]);
-        }, 3000); // Change text every 3 seconds
-
-        return () => clearInterval(interval); // Cleanup
-    }, []);
+// --- GenerationProgress: driven by the job status reported by the backend ---
+const GenerationProgress: React.FC<{ status: PipelineStatus }> = ({ status }) => {
+    const completedCount = status.completedStages.size;
+    const progress = (completedCount / PIPELINE_STAGES.length) * 100;
+    const label = status.currentStage ? `${status.currentStage}...` : completedCount > 0 ? "Finishing up..." : "Submitting job...";
 
     return (
         <div className="w-full flex items-center justify-center text-center">
-            <div className="w-full max-w-xs">
-                {/* Use dynamic loading text */}
-                <p className="text-brand-primary font-bold text-lg animate-pulse">{loadingText}</p>
+            <div className="w-full max-w-xl">
+                <div className="flex items-baseline justify-between gap-4">
+                    <p className="text-brand-primary font-bold text-lg animate-pulse">{label}</p>
+                    {status.etaSeconds !== null && (
+                        <span className="text-xs text-content-muted whitespace-nowrap">~{formatDuration(status.etaSeconds)} left</span>
+                    )}
+                </div>
                 <div className="w-full bg-base-300/50 rounded-full h-1.5 mt-2 overflow-hidden">
-                    {/* Use a moving progress bar */}
-                    <div className="bg-brand-primary h-1.5 w-1/2 animate-infinite-progress" />
+                    <div className="bg-brand-primary h-1.5 transition-all duration-500" style={{ width: `${progress}%` }} />
                 </div>
+                <ol className="flex justify-between gap-2 mt-2">
+                    {PIPELINE_STAGES.map((stage) => {
+                        const isDone = status.completedStages.has(stage);
+                        const isActive = status.currentStage === stage;
+                        const seconds = status.stageDurations[stage];
+                        return (
+                            <li
+                                key={stage}
+                                className={`flex items-center gap-1 text-[11px] ${isDone ? 'text-brand-primary' : isActive ? 'text-white' : 'text-content-muted/60'}`}
+                            >
+                                {isDone && <CheckCircleIcon className="w-3 h-3" />}
+                                <span>{stage}</span>
+                                {seconds !== undefined && <span className="text-content-muted">{formatDuration(seconds)}</span>}
+                            </li>
+                        );
+                    })}
+                </ol>
             </div>
         </div>
     );
 };
 
-const UploadStep: React.FC<{ onFileChange: (file: File | null) => void; onToggleDrawing: () => void; }> = ({ onFileChange, onToggleDrawing }) => (
+const UploadStep: React.FC<{ onFileChange: (file: File | null) => void; onBatchFiles: (files: File[]) => void; onToggleDrawing: () => void; }> = ({ onFileChange, onBatchFiles, onToggleDrawing }) => (
     <div className="flex items-center justify-center gap-4 animate-slide-in-up">
         <FileUpload
-            onFileChange={onFileChange}
+            multiple
+            onFilesChange={(files) => (files.length === 1 ? onFileChange(files[0]) : onBatchFiles(files))}
+            title="Pick several sketches to generate them as a batch"
             className="bg-brand-primary/80 hover:bg-brand-primary text-black font-bold py-3 px-6 rounded-full flex items-center justify-center transition-all duration-300 transform hover:scale-105 shadow-lg focus:outline-none focus:ring-4 focus:ring-brand-primary/50 text-lg"
         >
             <UploadIcon className="w-6 h-6 mr-2" />
@@ -86,17 +121,197 @@ const UploadStep: React.FC<{ onFileChange: (file: File | null) => void; onToggle
     </div>
 );
 
+// --- SeedInputs: one optional seed per variation; empty means a new random seed each run ---
+const SeedInputs: React.FC<ControlBarProps> = (props) => {
+    const setSeed = (index: number, value: string) => {
+        const seeds = Array.from({ length: Math.max(props.lockedSeeds.length, index + 1) }, (_, i) => props.lockedSeeds[i] ?? null);
+        const parsed = parseInt(value, 10);
+        seeds[index] = Number.isFinite(parsed) && parsed >= 0 ? Math.min(parsed, MAX_SEED) : null;
+        props.onLockedSeedsChange(seeds);
+    };
+
+    return (
+        <div className="flex items-center justify-end gap-2 w-full">
+            <span className="text-sm font-medium text-content-muted whitespace-nowrap" title="Set a seed to get the same variation again">Seeds</span>
+            {Array.from({ length: props.numberOfVariations }, (_, i) => {
+                const seed = props.lockedSeeds[i] ?? null;
+                return (
+                    <div key={i} className="flex items-center gap-1">
+                        {seed !== null && <LockIcon className="w-3 h-3 text-brand-primary" />}
+                        <input
+                            type="number"
+                            min={0}
+                            max={MAX_SEED}
+                            value={seed ?? ''}
+                            onChange={(e) => setSeed(i, e.target.value)}
+                            placeholder={`#${i + 1} random`}
+                            aria-label={`Seed for variation ${i + 1}`}
+                            className="w-28 bg-base-300/70 text-content border border-base-300 rounded-full py-1 px-3 text-xs focus:ring-2 focus:ring-brand-primary focus:outline-none placeholder:text-content-muted"
+                        />
+                    </div>
+                );
+            })}
+        </div>
+    );
+};
+
+// --- PromptOptionsRow: style, detail and negative prompt, plus the user's saved presets ---
+const PromptOptionsRow: React.FC<ControlBarProps> = (props) => {
+    const [presetName, setPresetName] = React.useState('');
+    const update = (changes: Partial<PromptOptions>) => props.onPromptOptionsChange({ ...props.promptOptions, ...changes });
+    const selectClass = "bg-base-300/70 text-content border border-base-300 rounded-full py-1 px-3 text-xs focus:ring-2 focus:ring-brand-primary focus:outline-none";
+
+    const handleSave = () => {
+        const name = window.prompt("Save the prompt and options as preset:", presetName);
+        if (!name?.trim()) return;
+        props.onSavePreset(name.trim());
+        setPresetName(name.trim());
+    };
+
+    return (
+        <div className="flex items-center justify-end gap-2 w-full">
+            <select
+                value={props.promptOptions.style}
+                onChange={(e) => update({ style: e.target.value as StylePreset })}
+                title={STYLE_PRESETS[props.promptOptions.style].description}
+                aria-label="Style"
+                className={selectClass}
+            >
+                {(Object.keys(STYLE_PRESETS) as StylePreset[]).map((style) => (
+                    <option key={style} value={style}>{STYLE_PRESETS[style].label}</option>
+                ))}
+            </select>
+            <select
+                value={props.promptOptions.detail}
+                onChange={(e) => update({ detail: e.target.value as DetailLevel })}
+                aria-label="Detail level"
+                className={selectClass}
+            >
+                {(Object.keys(DETAIL_LEVEL_LABELS) as DetailLevel[]).map((detail) => (
+                    <option key={detail} value={detail}>{DETAIL_LEVEL_LABELS[detail]}</option>
+                ))}
+            </select>
+            <input
+                type="text"
+                value={props.promptOptions.negativePrompt}
+                onChange={(e) => update({ negativePrompt: e.target.value })}
+                placeholder="Avoid (e.g., 'thin spikes, floating parts')"
+                aria-label="Negative prompt"
+                className="flex-1 min-w-0 bg-base-300/70 text-content border border-base-300 rounded-full py-1 px-3 text-xs focus:ring-2 focus:ring-brand-primary focus:outline-none placeholder:text-content-muted"
+            />
+            <select
+                value={props.promptPresets.some(({ name }) => name === presetName) ? presetName : ''}
+                onChange={(e) => {
+                    const preset = props.promptPresets.find(({ name }) => name === e.target.value);
+                    setPresetName(e.target.value);
+                    if (preset) props.onApplyPreset(preset);
+                }}
+                aria-label="Saved presets"
+                className={selectClass}
+            >
+                <option value="">{props.promptPresets.length > 0 ? 'Presets...' : 'No presets'}</option>
+                {props.promptPresets.map(({ name }) => <option key={name} value={name}>{name}</option>)}
+            </select>
+            <button onClick={handleSave} className="text-xs text-content-muted hover:text-white transition-colors">
+                Save
+            </button>
+            {props.promptPresets.some(({ name }) => name === presetName) && (
+                <button
+                    onClick={() => {
+                        props.onDeletePreset(presetName);
+                        setPresetName('');
+                    }}
+                    title={`Delete the "${presetName}" preset`}
+                    className="text-content-muted hover:text-red-400 transition-colors"
+                >
+                    <TrashIcon className="w-3 h-3" />
+                </button>
+            )}
+        </div>
+    );
+};
+
+// --- RefineBanner: which variation the next round starts from, and a way to touch up the sketch ---
+const RefineBanner: React.FC<ControlBarProps> = (props) => {
+    if (!props.refineTarget) return null;
+    const { geometry, index } = props.refineTarget;
+    return (
+        <div className="flex items-center justify-end gap-3 w-full text-sm">
+            <span className="text-brand-primary font-semibold">
+                Refining variation {formatRefinementStep({ round: variationRound(geometry), index })}
+            </span>
+            <button onClick={props.onEditSketch} className="flex items-center text-content-muted hover:text-white transition-colors">
+                <PencilIcon className="w-4 h-4 mr-1" />
+                Edit sketch
+            </button>
+            <button onClick={props.onCancelRefine} className="text-content-muted hover:text-red-400 transition-colors">
+                Start fresh instead
+            </button>
+        </div>
+    );
+};
+
+// --- SketchViews: the front sketch plus optional side and top views, sent together ---
+const SketchViews: React.FC<ControlBarProps> = (props) => (
+    <div className="flex items-end gap-2">
+        {props.sketchPreview && (
+            <figure className="flex-shrink-0 flex flex-col items-center gap-1">
+                <img src={props.sketchPreview} alt="Front view" className="h-14 w-14 object-cover rounded-md border-2 border-base-300" />
+                <figcaption className="text-[10px] text-content-muted">{SKETCH_VIEW_LABELS.front}</figcaption>
+            </figure>
+        )}
+        {EXTRA_SKETCH_VIEWS.map((view) => {
+            const preview = props.extraViewPreviews[view];
+            const label = SKETCH_VIEW_LABELS[view];
+            return (
+                <figure key={view} className="flex-shrink-0 flex flex-col items-center gap-1">
+                    {preview ? (
+                        <div className="relative group">
+                            <img src={preview} alt={`${label} view`} className="h-14 w-14 object-cover rounded-md border-2 border-base-300" />
+                            {!props.isGenerating && (
+                                <button
+                                    onClick={() => props.onExtraViewChange(view, null)}
+                                    title={`Remove the ${label.toLowerCase()} view`}
+                                    className="absolute -top-2 -right-2 bg-red-600/80 hover:bg-red-600 text-white rounded-full p-1 opacity-0 group-hover:opacity-100 transition-opacity"
+                                >
+                                    <TrashIcon className="w-3 h-3" />
+                                </button>
+                            )}
+                        </div>
+                    ) : (
+                        <div className={`h-14 w-14 rounded-md border-2 border-dashed border-base-300 flex items-center justify-center gap-1 ${props.isGenerating ? 'opacity-40' : ''}`}>
+                            <FileUpload
+                                onFileChange={(file) => props.onExtraViewChange(view, file)}
+                                disabled={props.isGenerating}
+                                title={`Upload the ${label.toLowerCase()} view`}
+                                className="text-content-muted hover:text-brand-primary transition-colors"
+                            >
+                                <UploadIcon className="w-4 h-4" />
+                            </FileUpload>
+                            <button
+                                onClick={() => props.onDrawView(view)}
+                                disabled={props.isGenerating}
+                                title={`Draw the ${label.toLowerCase()} view`}
+                                className="text-content-muted hover:text-brand-primary transition-colors"
+                            >
+                                <PencilIcon className="w-4 h-4" />
+                            </button>
+                        </div>
+                    )}
+                    <figcaption className="text-[10px] text-content-muted">{label}</figcaption>
+                </figure>
+            );
+        })}
+    </div>
+);
+
 /**
  * UPDATED: GeneratingStep
  */
 const GeneratingStep: React.FC<ControlBarProps> = (props) => (
     <div className="w-full flex items-center justify-between gap-6 animate-slide-in-up">
         <div className="flex items-center gap-4">
-            {props.sketchPreview && (
-                 <div className="flex-shrink-0">
-                    <img src={props.sketchPreview} alt="Sketch preview" className="h-14 w-14 object-cover rounded-md border-2 border-base-300" />
-                </div>
-            )}
+            <SketchViews {...props} />
             <div>
                  <button onClick={props.onStartOver} className="text-sm text-content-muted hover:text-white flex items-center transition-colors">
                     <UndoIcon className="w-4 h-4 mr-2" />
@@ -105,9 +320,21 @@ const GeneratingStep: React.FC<ControlBarProps> = (props) => (
             </div>
         </div>
         
-        {/* Pass `isGenerating` to the progress bar */}
-        {props.isGenerating ? <GenerationProgress /> : (
+        {/* Pass the live job status to the progress bar */}
+        {props.isGenerating ? (
+            <div className="flex items-center gap-4 flex-grow max-w-4xl">
+                <GenerationProgress status={props.pipelineStatus} />
+                <button
+                    onClick={props.onCancelGeneration}
+                    className="bg-red-600/50 hover:bg-red-600 text-white font-bold py-2 px-5 rounded-full flex items-center justify-center transition-colors duration-300 flex-shrink-0"
+                >
+                    Cancel
+                </button>
+            </div>
+        ) : (
             <div className="flex flex-col items-end gap-3 flex-grow max-w-4xl">
+                <RefineBanner {...props} />
+
                 <input
                     type="text"
                     value={props.textPrompt}
@@ -116,15 +343,36 @@ const GeneratingStep: React.FC<ControlBarProps> = (props) => (
                     className="w-full bg-base-300/70 text-content border border-base-300 rounded-full py-2 px-4 focus:ring-2 focus:ring-brand-primary focus:outline-none transition-all text-sm placeholder:text-content-muted"
                     aria-label="Describe what to generate"
                 />
+
+                <PromptOptionsRow {...props} />
+
+                <SeedInputs {...props} />
                                 
                 <div className="flex items-center justify-end gap-4 w-full">
+                    <div className="flex items-center gap-3">
+                        <label htmlFor="model-select" className="text-sm font-medium text-content-muted whitespace-nowrap">Model</label>
+                        <select
+                            id="model-select"
+                            value={props.modelId}
+                            onChange={(e) => props.onModelChange(e.target.value as ModelId)}
+                            title={MODEL_CAPABILITIES[props.modelId].description}
+                            className="bg-base-300/70 text-content border border-base-300 rounded-full py-2 px-3 text-sm focus:ring-2 focus:ring-brand-primary focus:outline-none"
+                        >
+                            {MODEL_IDS.map((id) => (
+                                <option key={id} value={id}>
+                                    {MODEL_CAPABILITIES[id].label}{MODEL_CAPABILITIES[id].supportsColor ? '' : ' (no colour)'}
+                                </option>
+                            ))}
+                        </select>
+                    </div>
+
                     <div className="flex items-center gap-3">
                         <label htmlFor="variations-input" className="text-sm font-medium text-content-muted whitespace-nowrap">Variations</label>
                         <input
                             id="variations-input"
                             type="range"
                             min="1"
-                            max="5"
+                            max={MODEL_CAPABILITIES[props.modelId].maxVariations}
                             value={props.numberOfVariations}
                             onChange={(e) => props.onNumberOfVariationsChange(parseInt(e.target.value, 10))}
                             className="w-24 h-2 bg-base-300 rounded-lg appearance-none cursor-pointer"
@@ -133,12 +381,32 @@ const GeneratingStep: React.FC<ControlBarProps> = (props) => (
                         <span className="font-bold text-lg text-brand-primary">{props.numberOfVariations}</span>
                     </div>
                     
+                    <button
+                        onClick={props.onGenerateOffline}
+                        disabled={props.isInflating}
+                        title="Inflate the sketch's outline in the browser, without the generation server"
+                        className="bg-base-300/80 hover:bg-base-300 text-content font-bold py-3 px-5 rounded-full flex items-center justify-center transition-all duration-300 transform hover:scale-105 shadow-lg focus:outline-none focus:ring-4 focus:ring-brand-primary/50 text-lg disabled:opacity-50 disabled:hover:scale-100"
+                    >
+                        <CpuIcon className="w-6 h-6 mr-2" />
+                        {props.isInflating ? 'Inflating...' : 'Offline'}
+                    </button>
+
+                    <button
+                        onClick={props.onOpenContourModeling}
+                        title="Extrude or revolve the sketch's closed contours with exact dimensions"
+                        className="bg-base-300/80 hover:bg-base-300 text-content font-bold py-3 px-5 rounded-full flex items-center justify-center transition-all duration-300 transform hover:scale-105 shadow-lg focus:outline-none focus:ring-4 focus:ring-brand-primary/50 text-lg"
+                    >
+                        <CubeIcon className="w-6 h-6 mr-2" />
+                        Extrude / Revolve
+                    </button>
+
                     <button
                         onClick={props.onGenerate}
-                        className="bg-brand-primary/80 hover:bg-brand-primary text-black font-bold py-3 px-6 rounded-full flex items-center justify-center transition-all duration-300 transform hover:scale-105 shadow-lg focus:outline-none focus:ring-4 focus:ring-brand-primary/50 text-lg"
+                        disabled={props.isInflating}
+                        className="bg-brand-primary/80 hover:bg-brand-primary text-black font-bold py-3 px-6 rounded-full flex items-center justify-center transition-all duration-300 transform hover:scale-105 shadow-lg focus:outline-none focus:ring-4 focus:ring-brand-primary/50 text-lg disabled:opacity-50 disabled:hover:scale-100"
                     >
                         <SparklesIcon className="w-6 h-6 mr-2" />
-                        Generate
+                        {props.refineTarget ? 'Refine' : 'Generate'}
                     </button>
                 </div>
             </div>
@@ -151,7 +419,7 @@ export const ControlBar: React.FC<ControlBarProps> = (props) => {
   const renderContent = () => {
       switch(props.workflowStep) {
           case 'upload':
-              return <UploadStep onFileChange={props.onFileChange} onToggleDrawing={props.onToggleDrawing} />;
+              return <UploadStep onFileChange={props.onFileChange} onBatchFiles={props.onBatchFiles} onToggleDrawing={props.onToggleDrawing} />;
           case 'generating':
               return <GeneratingStep {...props} />;
           case 'results':
@@ -12,10 +12,16 @@ import {
   TriangleIcon,
   PaintBucketIcon
 } from './icons'; // Using the consolidated icons file
+import type { SketchView } from '../types';
+import { SKETCH_VIEW_LABELS } from '../constants';
 
 interface DrawingCanvasProps {
   onComplete: (file: File) => void;
   onCancel: () => void;
+  // Which orthographic view is being drawn; labels the canvas and names the file
+  view?: SketchView;
+  // Image URL to draw over instead of a blank page, e.g. the sketch being refined
+  baseImage?: string | null;
 }
 
 type Tool = 'draw' | 'erase' | 'line' | 'rect' | 'circle' | 'triangle' | 'fill';
@@ -40,7 +46,7 @@ const ToolButton: React.FC<{
   </button>
 );
 
-export const DrawingCanvas: React.FC<DrawingCanvasProps> = ({ onComplete, onCancel }) => {
+export const DrawingCanvas: React.FC<DrawingCanvasProps> = ({ onComplete, onCancel, view = 'front', baseImage }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const contextRef = useRef<CanvasRenderingContext2D | null>(null);
   const [isDrawing, setIsDrawing] = useState(false);
@@ -95,10 +101,24 @@ export const DrawingCanvas: React.FC<DrawingCanvasProps> = ({ onComplete, onCanc
         const initialImageData = context.getImageData(0, 0, canvas.width, canvas.height);
         setHistory([initialImageData]);
         setRedoHistory([]);
+        if (baseImage) drawBaseImage(canvas, context, baseImage);
       }
     }
   };
 
+  // Fits the base image into the page; it becomes the first undo state, so it can't be undone away
+  const drawBaseImage = (canvas: HTMLCanvasElement, context: CanvasRenderingContext2D, src: string) => {
+    const image = new Image();
+    image.onload = () => {
+      const scale = Math.min(canvas.width / image.width, canvas.height / image.height);
+      const width = image.width * scale;
+      const height = image.height * scale;
+      context.drawImage(image, (canvas.width - width) / 2, (canvas.height - height) / 2, width, height);
+      setHistory([context.getImageData(0, 0, canvas.width, canvas.height)]);
+    };
+    image.src = src;
+  };
+
   // This useEffect now only runs ONCE on mount
   useEffect(() => {
     const canvas = canvasRef.current;
@@ -386,7 +406,7 @@ export const DrawingCanvas: React.FC<DrawingCanvasProps> = ({ onComplete, onCanc
   const handleComplete = () => {
     canvasRef.current?.toBlob((blob) => {
       if (blob) {
-        const file = new File([blob], 'sketch.png', { type: 'image/png' });
+        const file = new File([blob], view === 'front' ? 'sketch.png' : `sketch-${view}.png`, { type: 'image/png' });
         onComplete(file);
       }
     }, 'image/png');
@@ -396,6 +416,8 @@ export const DrawingCanvas: React.FC<DrawingCanvasProps> = ({ onComplete, onCanc
   return (
     <div className="fixed inset-0 bg-base-100/80 backdrop-blur-md z-40 flex flex-col items-center justify-center animate-fade-in p-4">
         <div className="absolute top-5 left-1/2 -translate-x-1/2 z-50 bg-base-200/50 backdrop-blur-lg border border-base-300/50 rounded-full p-2 flex items-center gap-2">
+            <span className="px-3 text-sm font-bold text-brand-primary whitespace-nowrap">{SKETCH_VIEW_LABELS[view]} view</span>
+            <div className="w-px h-6 bg-base-300/50 mx-1"></div>
             
             <ToolButton label="Pencil" isActive={tool === 'draw'} onClick={() => setTool('draw')}>
               <PencilIcon className="w-6 h-6" />
@@ -0,0 +1,98 @@
+import React from 'react';
+import type { ExportFormat, ExportSettings, GltfFormat, PlyFormat, StlFormat } from '../types';
+import { describeExportSettings } from '../services/exportSettings';
+import { DownloadIcon } from './icons';
+
+interface ExportAllPanelProps {
+  variationCount: number;
+  formats: ExportFormat[];
+  onFormatsChange: (formats: ExportFormat[]) => void;
+  // The binary/text choices made under the sidebar's single-export buttons
+  stlFormat: StlFormat;
+  plyFormat: PlyFormat;
+  gltfFormat: GltfFormat;
+  exportSettings: ExportSettings;
+  onEditSettings: () => void;
+  isExporting: boolean;
+  onExport: () => void;
+  onClose: () => void;
+}
+
+const EXPORT_FORMATS: ExportFormat[] = ['obj', 'stl', 'ply', '3mf', 'gltf', 'usdz'];
+
+const formatLabel = (format: ExportFormat, props: ExportAllPanelProps) => {
+  switch (format) {
+    case 'obj': return 'OBJ + MTL';
+    case 'stl': return `STL (${props.stlFormat === 'binary' ? 'binary' : 'ASCII'})`;
+    case 'ply': return `PLY (${props.plyFormat === 'binary' ? 'binary' : 'ASCII'})`;
+    case '3mf': return '3MF';
+    case 'gltf': return props.gltfFormat === 'glb' ? 'GLB' : 'glTF';
+    case 'usdz': return 'USDZ';
+  }
+};
+
+/**
+ * Picks the formats for "Export all": every variation in each of them, plus the sketches and
+ * a manifest, in one ZIP.
+ */
+export const ExportAllPanel: React.FC<ExportAllPanelProps> = (props) => {
+  const toggle = (format: ExportFormat) =>
+    props.onFormatsChange(props.formats.includes(format)
+      ? props.formats.filter((f) => f !== format)
+      : EXPORT_FORMATS.filter((f) => f === format || props.formats.includes(f)));
+
+  return (
+    <div className="fixed inset-0 bg-base-100/80 backdrop-blur-md z-40 flex items-center justify-center animate-fade-in p-4">
+      <div className="w-full max-w-md bg-base-200/90 border border-base-300 rounded-lg shadow-2xl p-6 flex flex-col gap-4">
+        <div className="flex items-center gap-3">
+          <DownloadIcon className="w-6 h-6 text-brand-primary" />
+          <h2 className="text-lg font-bold">Export all</h2>
+          <span className="text-sm text-content-muted">
+            {props.variationCount} variation{props.variationCount === 1 ? '' : 's'}
+          </span>
+        </div>
+
+        <div className="grid grid-cols-2 gap-2">
+          {EXPORT_FORMATS.map((format) => (
+            <label key={format} className="flex items-center gap-2 bg-base-300/40 rounded-md py-2 px-3 text-sm cursor-pointer">
+              <input
+                type="checkbox"
+                checked={props.formats.includes(format)}
+                disabled={props.isExporting}
+                onChange={() => toggle(format)}
+                className="accent-brand-primary"
+              />
+              {formatLabel(format, props)}
+            </label>
+          ))}
+        </div>
+        <div className="flex items-center justify-between gap-3 text-sm">
+          <span className="text-content-muted">{describeExportSettings(props.exportSettings)}</span>
+          <button onClick={props.onEditSettings} disabled={props.isExporting} className="text-xs font-bold text-brand-primary hover:underline disabled:opacity-50">
+            Change
+          </button>
+        </div>
+        <p className="text-xs text-content-muted">
+          The ZIP also holds the sketches and a manifest.json with the prompt and each variation's parameters and mesh stats.
+        </p>
+
+        <div className="flex items-center justify-end gap-3">
+          <button
+            onClick={props.onClose}
+            className="bg-base-300 hover:bg-base-300/80 text-content font-bold py-2 px-5 rounded-full transition-colors duration-300"
+          >
+            Close
+          </button>
+          <button
+            onClick={props.onExport}
+            disabled={props.formats.length === 0 || props.isExporting}
+            className="bg-brand-primary/80 hover:bg-brand-primary text-black font-bold py-2 px-5 rounded-full flex items-center justify-center transition-all duration-300 shadow-lg focus:outline-none focus:ring-4 focus:ring-brand-primary/50 disabled:opacity-50"
+          >
+            <DownloadIcon className="w-5 h-5 mr-2" />
+            {props.isExporting ? 'Packing...' : 'Download ZIP'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,168 @@
+import React, { useEffect, useState } from 'react';
+import type { ExportSettings, ExportSizing, GeneratedGeometry, LengthUnit, UpAxis } from '../types';
+import { EXPORT_SIZING_LABELS, LENGTH_UNIT_LABELS } from '../constants';
+import { changeExportUnit, exportedSize } from '../services/exportSettings';
+import { TargetIcon } from './icons';
+
+interface ExportSettingsPanelProps {
+  settings: ExportSettings;
+  onChange: (settings: ExportSettings) => void;
+  // The selected variation, to preview the exported size
+  geometry: GeneratedGeometry | null;
+  onClose: () => void;
+}
+
+const UP_AXIS_OPTIONS: { value: UpAxis; label: string; title: string }[] = [
+  { value: 'z', label: 'Z-up', title: 'As slicers and CAD tools expect' },
+  { value: 'y', label: 'Y-up', title: 'As game engines and most modelling tools expect' },
+];
+
+const inputClassName =
+  'bg-base-300/70 text-content border border-base-300 rounded-full py-1.5 px-3 text-sm focus:ring-2 focus:ring-brand-primary focus:outline-none';
+
+// Only positive sizes are passed on; the field shows the last one again when left invalid
+const SizeInput: React.FC<{ id: string; value: number; onChange: (value: number) => void; title?: string }> = ({ id, value, onChange, title }) => {
+  const [draft, setDraft] = useState(String(value));
+  useEffect(() => setDraft(String(value)), [value]);
+
+  return (
+    <input
+      id={id}
+      type="number"
+      min={0}
+      step="any"
+      value={draft}
+      title={title}
+      onChange={(e) => {
+        setDraft(e.target.value);
+        const size = parseFloat(e.target.value);
+        if (Number.isFinite(size) && size > 0) onChange(size);
+      }}
+      onBlur={() => setDraft(String(value))}
+      className={`${inputClassName} w-24 text-center`}
+    />
+  );
+};
+
+/**
+ * Units, size and orientation used by every export. Sizing is uniform and measured on the
+ * model as the viewer shows it: width left to right, depth front to back, height upwards.
+ */
+export const ExportSettingsPanel: React.FC<ExportSettingsPanelProps> = ({ settings, onChange, geometry, onClose }) => {
+  const update = (changes: Partial<ExportSettings>) => onChange({ ...settings, ...changes });
+  const size = geometry ? exportedSize(geometry, settings) : null;
+
+  return (
+    <div className="fixed inset-0 bg-base-100/80 backdrop-blur-md z-40 flex items-center justify-center animate-fade-in p-4">
+      <div className="w-full max-w-md bg-base-200/90 border border-base-300 rounded-lg shadow-2xl p-6 flex flex-col gap-4">
+        <div className="flex items-center gap-3">
+          <TargetIcon className="w-6 h-6 text-brand-primary" />
+          <h2 className="text-lg font-bold">Export settings</h2>
+        </div>
+
+        <div className="flex items-center justify-between gap-4">
+          <label htmlFor="export-unit" className="text-sm font-medium text-content-muted">Units</label>
+          <select
+            id="export-unit"
+            value={settings.unit}
+            onChange={(e) => onChange(changeExportUnit(settings, e.target.value as LengthUnit))}
+            className={inputClassName}
+          >
+            {(Object.keys(LENGTH_UNIT_LABELS) as LengthUnit[]).map((unit) => (
+              <option key={unit} value={unit}>{LENGTH_UNIT_LABELS[unit]}</option>
+            ))}
+          </select>
+        </div>
+
+        <div className="flex items-center justify-between gap-4">
+          <label htmlFor="export-sizing" className="text-sm font-medium text-content-muted">Size</label>
+          <select
+            id="export-sizing"
+            value={settings.sizing}
+            onChange={(e) => update({ sizing: e.target.value as ExportSizing })}
+            className={inputClassName}
+          >
+            {(Object.keys(EXPORT_SIZING_LABELS) as ExportSizing[]).map((sizing) => (
+              <option key={sizing} value={sizing}>{EXPORT_SIZING_LABELS[sizing]}</option>
+            ))}
+          </select>
+        </div>
+
+        {(settings.sizing === 'height' || settings.sizing === 'width') && (
+          <div className="flex items-center justify-between gap-4">
+            <label htmlFor="export-target" className="text-sm font-medium text-content-muted">
+              {settings.sizing === 'height' ? 'Height' : 'Width'}
+            </label>
+            <div className="flex items-center gap-2">
+              <SizeInput id="export-target" value={settings.targetSize} onChange={(targetSize) => update({ targetSize })} />
+              <span className="w-6 text-sm text-content-muted">{settings.unit}</span>
+            </div>
+          </div>
+        )}
+
+        {settings.sizing === 'print-bed' && (
+          <div className="flex items-center justify-between gap-4">
+            <label htmlFor="export-bed-width" className="text-sm font-medium text-content-muted">Bed</label>
+            <div className="flex items-center gap-1">
+              {(['Width', 'Depth', 'Height'] as const).map((label, axis) => (
+                <React.Fragment key={label}>
+                  {axis > 0 && <span className="text-content-muted">×</span>}
+                  <SizeInput
+                    id={`export-bed-${label.toLowerCase()}`}
+                    title={label}
+                    value={settings.printBed[axis]}
+                    onChange={(value) => {
+                      const printBed = [...settings.printBed] as ExportSettings['printBed'];
+                      printBed[axis] = value;
+                      update({ printBed });
+                    }}
+                  />
+                </React.Fragment>
+              ))}
+              <span className="w-6 text-sm text-content-muted">{settings.unit}</span>
+            </div>
+          </div>
+        )}
+
+        <div className="flex items-center justify-between gap-4">
+          <span className="text-sm font-medium text-content-muted">Up axis</span>
+          <div className="flex bg-base-300/50 rounded-full p-1">
+            {UP_AXIS_OPTIONS.map((option) => (
+              <button
+                key={option.value}
+                onClick={() => update({ upAxis: option.value })}
+                title={option.title}
+                className={`px-3 py-1 rounded-full text-xs font-bold transition-colors ${
+                  settings.upAxis === option.value ? 'bg-brand-primary text-black' : 'text-content-muted hover:text-white'
+                }`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+        </div>
+        <p className="text-xs text-content-muted">
+          The up axis applies to OBJ, STL and PLY. 3MF is always Z-up; glTF and USDZ are always Y-up and in metres, so they
+          open upright at this size, or at one metre per model unit when the generated size is kept.
+        </p>
+
+        {size && (
+          <p className="text-sm">
+            Selected variation: <span className="font-bold text-brand-primary">
+              {size.map((value) => value.toFixed(1)).join(' × ')} {settings.unit}
+            </span>
+          </p>
+        )}
+
+        <div className="flex items-center justify-end">
+          <button
+            onClick={onClose}
+            className="bg-brand-primary/80 hover:bg-brand-primary text-black font-bold py-2 px-5 rounded-full transition-all duration-300 shadow-lg focus:outline-none focus:ring-4 focus:ring-brand-primary/50"
+          >
+            Done
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
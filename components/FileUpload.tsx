@@ -3,19 +3,26 @@ import React, { useRef } from 'react';
 import { UploadIcon } from './icons';
 
 interface FileUploadButtonProps {
-  onFileChange: (file: File | null) => void;
+  onFileChange?: (file: File | null) => void;
+  // With `multiple`, receives every selected file instead of `onFileChange`
+  onFilesChange?: (files: File[]) => void;
+  multiple?: boolean;
   children: React.ReactNode;
   className?: string;
   disabled?: boolean;
+  title?: string;
 }
 
-export const FileUpload: React.FC<FileUploadButtonProps> = ({ onFileChange, children, className, disabled }) => {
+export const FileUpload: React.FC<FileUploadButtonProps> = ({ onFileChange, onFilesChange, multiple, children, className, disabled, title }) => {
   const inputRef = useRef<HTMLInputElement>(null);
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files[0]) {
-      onFileChange(e.target.files[0]);
+      if (multiple && onFilesChange) onFilesChange(Array.from(e.target.files));
+      else onFileChange?.(e.target.files[0]);
     }
+    // Lets the same file be picked again later
+    e.target.value = '';
   };
 
   const handleClick = () => {
@@ -30,9 +37,10 @@ export const FileUpload: React.FC<FileUploadButtonProps> = ({ onFileChange, chil
         onChange={handleFileChange}
         className="hidden"
         accept="image/*"
+        multiple={multiple}
         disabled={disabled}
       />
-      <button onClick={handleClick} className={className} disabled={disabled}>
+      <button onClick={handleClick} className={className} disabled={disabled} title={title}>
         {children}
       </button>
     </>
@@ -0,0 +1,31 @@
+import React from 'react';
+
+interface RangeFieldProps {
+  id: string;
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  unit: string;
+  onChange: (value: number) => void;
+}
+
+// Labelled slider with its value, as used by the sketch editing panels
+export const RangeField: React.FC<RangeFieldProps> = ({ id, label, value, min, max, unit, onChange }) => (
+  <div className="flex items-center justify-between gap-4">
+    <label htmlFor={id} className="text-sm font-medium text-content-muted">{label}</label>
+    <div className="flex items-center gap-2">
+      <input
+        id={id}
+        type="range"
+        min={min}
+        max={max}
+        value={value}
+        onChange={(e) => onChange(parseInt(e.target.value, 10))}
+        className="w-32 h-2 bg-base-300 rounded-lg appearance-none cursor-pointer"
+        style={{'accentColor': '#39FF14'}}
+      />
+      <span className="w-12 text-right text-sm font-bold text-brand-primary">{value}{unit}</span>
+    </div>
+  </div>
+);
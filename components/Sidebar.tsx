@@ -11,18 +11,48 @@ import {
   PaintBucketIcon,
   MousePointerIcon,
   VrIcon,
-  CubeIcon
+  CubeIcon,
+  LockIcon,
+  SparklesIcon,
+  TargetIcon
 } from './icons';
-import type { ShadingMode, LightingPreset } from '../types';
+import type { ShadingMode, LightingPreset, ExportSettings, GeneratedGeometry, GenerationParams, GltfFormat, PlyFormat, StlFormat, VariationSlot } from '../types';
+import { DETAIL_LEVEL_LABELS, MODEL_CAPABILITIES, STYLE_PRESETS, VARIATION_SOURCE_LABELS } from '../constants';
+import { describeExportSettings } from '../services/exportSettings';
+import { supportsQuickLook } from '../services/meshExport';
+import { formatRefinementStep, variationRound } from '../services/refinement';
 
 interface SidebarProps {
   onStartOver: () => void;
   onResetVariations: () => void;
   onExportOBJ: () => void;
   onExportSTL: () => void;
-  generatedGeometries: any[];
+  stlFormat: StlFormat;
+  onStlFormatChange: (format: StlFormat) => void;
+  onExportPLY: () => void;
+  plyFormat: PlyFormat;
+  onPlyFormatChange: (format: PlyFormat) => void;
+  onExport3MF: () => void;
+  onExportGLTF: () => void;
+  gltfFormat: GltfFormat;
+  onGltfFormatChange: (format: GltfFormat) => void;
+  onExportUSDZ: () => void;
+  // Hands the selected variation to AR Quick Look, for devices without WebXR
+  onOpenInAR: () => void;
+  // Opens the format picker for one ZIP of every variation
+  onExportAll: () => void;
+  // Units, size and orientation shared by every export
+  exportSettings: ExportSettings;
+  onOpenExportSettings: () => void;
+  generatedGeometries: GeneratedGeometry[];
   selectedVariationIndex: number | null;
   onSelectVariation: (index: number) => void;
+  // Every requested variation of a streamed run; empty when all results arrived together
+  variationSlots: VariationSlot[];
+  isGenerating: boolean;
+  onCancelGeneration: () => void;
+  onReuseParams: (params: GenerationParams) => void;
+  onRefine: () => void;
   shadingMode: ShadingMode;
   onShadingModeChange: (mode: ShadingMode) => void;
   lightingPreset: LightingPreset;
@@ -56,7 +86,125 @@ const IconButton: React.FC<{
   </button>
 );
 
+// e.g. "Gemini 2.5 Pro" or "Offline inflation"; empty for variations that carry no metadata
+const modelLabel = (geometry: GeneratedGeometry | undefined) => {
+  if (!geometry?.meta) return '';
+  const { source, model } = geometry.meta;
+  return model ? MODEL_CAPABILITIES[model].label : VARIATION_SOURCE_LABELS[source];
+};
+
+// e.g. "Refined from 1.2 → 2.1", oldest ancestor first
+const RefinementLineage: React.FC<{ geometry: GeneratedGeometry }> = ({ geometry }) => {
+  const lineage = geometry.meta?.lineage;
+  if (!lineage?.length) return null;
+  return (
+    <p className="text-xs text-content-muted text-center" title="The variations this round was refined from">
+      Refined from <span className="font-mono text-content">{lineage.map(formatRefinementStep).join(' → ')}</span>
+    </p>
+  );
+};
+
+// Picks the file flavour for the export button above it
+const FormatToggle = <T extends string>({ options, value, onChange }: {
+  options: { value: T; label: string; title: string }[];
+  value: T;
+  onChange: (value: T) => void;
+}) => (
+  <div className="flex items-center justify-center gap-1 bg-base-300/50 rounded-full p-1 text-xs font-bold">
+    {options.map((option) => (
+      <button
+        key={option.value}
+        onClick={() => onChange(option.value)}
+        title={option.title}
+        className={`flex-1 py-1 rounded-full transition-all ${
+          value === option.value ? 'bg-brand-primary text-black' : 'text-content-muted'
+        }`}
+      >
+        {option.label}
+      </button>
+    ))}
+  </div>
+);
+
+const STL_FORMAT_OPTIONS: { value: StlFormat; label: string; title: string }[] = [
+  { value: 'binary', label: 'Binary', title: 'Compact STL that slicers load quickly' },
+  { value: 'ascii', label: 'ASCII', title: 'Human-readable STL text' },
+];
+
+const PLY_FORMAT_OPTIONS: { value: PlyFormat; label: string; title: string }[] = [
+  { value: 'binary', label: 'Binary', title: 'Compact little-endian PLY' },
+  { value: 'ascii', label: 'ASCII', title: 'Human-readable PLY text' },
+];
+
+const GLTF_FORMAT_OPTIONS: { value: GltfFormat; label: string; title: string }[] = [
+  { value: 'glb', label: 'GLB', title: 'A single binary file' },
+  { value: 'gltf', label: 'glTF', title: 'JSON with the mesh data embedded' },
+];
+
+// One button per requested variation: ready ones select it, pending and failed ones hold its place
+const VariationButtons: React.FC<SidebarProps> = (props) => {
+  const buttonClass = 'w-8 h-8 rounded-full text-xs font-bold transition-all';
+  const renderReady = (position: number, label: number) => (
+    <button
+      key={label}
+      title={modelLabel(props.generatedGeometries[position])}
+      onClick={() => props.onSelectVariation(position)}
+      className={`${buttonClass} ${props.selectedVariationIndex === position ? 'bg-brand-primary text-black' : 'text-content-muted'}`}
+    >
+      {label}
+    </button>
+  );
+
+  if (props.variationSlots.length === 0) {
+    return <>{props.generatedGeometries.map((_, index) => renderReady(index, index + 1))}</>;
+  }
+
+  // Ready slots appear in the results list in the same order
+  let position = 0;
+  return (
+    <>
+      {props.variationSlots.map((slot, index) => {
+        if (slot.state === 'ready') return renderReady(position++, index + 1);
+        return (
+          <span
+            key={index + 1}
+            title={slot.state === 'failed' ? `Variation ${index + 1} failed: ${slot.error}` : `Variation ${index + 1} is still generating`}
+            className={`${buttonClass} flex items-center justify-center ${
+              slot.state === 'failed' ? 'text-red-400 line-through' : 'text-content-muted border border-dashed border-base-300 animate-pulse'
+            }`}
+          >
+            {index + 1}
+          </span>
+        );
+      })}
+    </>
+  );
+};
+
+// The parameters that reproduce the selected variation
+const RecordedParams: React.FC<{ params: GenerationParams; onReuse: (params: GenerationParams) => void }> = ({ params, onReuse }) => (
+  <div className="flex flex-col gap-1 bg-base-300/30 rounded-lg p-2 text-xs text-content-muted">
+    <p className="truncate" title={params.prompt}>"{params.prompt}"</p>
+    <p>{STYLE_PRESETS[params.options.style].label} · {DETAIL_LEVEL_LABELS[params.options.detail]}</p>
+    {params.options.negativePrompt && (
+      <p className="truncate" title={params.options.negativePrompt}>Avoid "{params.options.negativePrompt}"</p>
+    )}
+    <p>Seed <span className="font-mono text-content">{params.seed}</span></p>
+    <p title={params.sketchHash}>Sketch <span className="font-mono">{params.sketchHash.slice(0, 12)}</span></p>
+    <button
+      onClick={() => onReuse(params)}
+      title="Use this variation's prompt, model and seed for the next generation"
+      className="mt-1 flex items-center justify-center gap-1 rounded-full py-1 text-brand-primary hover:bg-brand-primary/10 transition-colors font-semibold"
+    >
+      <LockIcon className="w-3 h-3" />
+      Reuse settings
+    </button>
+  </div>
+);
+
 export const Sidebar: React.FC<SidebarProps> = (props) => {
+  const selectedGeometry = props.selectedVariationIndex !== null ? props.generatedGeometries[props.selectedVariationIndex] : undefined;
+
   return (
     <div className="absolute top-20 left-0 bottom-0 z-20 p-4 pointer-events-none">
       {/* Added: max-h-[80vh] and overflow-y-auto to handle small screens */}
@@ -80,9 +228,15 @@ export const Sidebar: React.FC<SidebarProps> = (props) => {
 
           <div className="w-full h-px bg-base-300/50 my-1"></div>
 
-          <IconButton title="Enter AR" onClick={() => store.enterAR()} isActive={false}>
-            <CubeIcon className="w-5 h-5" />
-          </IconButton>
+          {supportsQuickLook() ? (
+            <IconButton title="Open in AR" onClick={props.onOpenInAR} isActive={false}>
+              <CubeIcon className="w-5 h-5" />
+            </IconButton>
+          ) : (
+            <IconButton title="Enter AR" onClick={() => store.enterAR()} isActive={false}>
+              <CubeIcon className="w-5 h-5" />
+            </IconButton>
+          )}
 
           <IconButton title="Enter VR" onClick={() => store.enterVR()} isActive={false}>
             <VrIcon className="w-5 h-5" />
@@ -111,29 +265,62 @@ export const Sidebar: React.FC<SidebarProps> = (props) => {
         <div className="flex flex-col gap-2 mt-auto pt-2">
           <div className="w-full h-px bg-base-300/50 my-1"></div>
           
-          <div className="flex items-center justify-center gap-2 bg-base-300/50 rounded-full p-1">
-            {Array.from({ length: props.generatedGeometries.length }).map((_, index) => (
-              <button
-                key={index}
-                onClick={() => props.onSelectVariation(index)}
-                className={`w-8 h-8 rounded-full text-xs font-bold transition-all ${
-                  props.selectedVariationIndex === index ? 'bg-brand-primary text-black' : 'text-content-muted'
-                }`}
-              >
-                {index + 1}
-              </button>
-            ))}
+          {variationRound(props.generatedGeometries[0]) > 1 && (
+            <p className="text-xs text-content-muted text-center">Round {variationRound(props.generatedGeometries[0])}</p>
+          )}
+          <div className="flex flex-wrap items-center justify-center gap-2 bg-base-300/50 rounded-full p-1">
+            <VariationButtons {...props} />
           </div>
+          {props.isGenerating && props.variationSlots.some((slot) => slot.state === 'pending') && (
+            <button
+              onClick={props.onCancelGeneration}
+              className="text-xs text-content-muted hover:text-red-400 transition-colors"
+            >
+              Stop the remaining variations
+            </button>
+          )}
+          {modelLabel(selectedGeometry) && (
+            <p className="text-xs text-content-muted text-center">Made with {modelLabel(selectedGeometry)}</p>
+          )}
+          {selectedGeometry && <RefinementLineage geometry={selectedGeometry} />}
+          {selectedGeometry?.meta?.params && (
+            <RecordedParams params={selectedGeometry.meta.params} onReuse={props.onReuseParams} />
+          )}
 
+          <IconButton title="Refine" onClick={props.onRefine} isActive={false}>
+            <SparklesIcon className="w-5 h-5" />
+          </IconButton>
           <IconButton title="Regenerate" onClick={props.onResetVariations} isActive={false} isDanger={true}>
             <TrashIcon className="w-5 h-5" />
           </IconButton>
+          <IconButton title="Export Settings" onClick={props.onOpenExportSettings} isActive={false}>
+            <TargetIcon className="w-5 h-5" />
+          </IconButton>
+          <p className="text-xs text-content-muted text-center">{describeExportSettings(props.exportSettings)}</p>
           <IconButton title="Export OBJ" onClick={props.onExportOBJ} isActive={false}>
             <DownloadIcon className="w-5 h-5" />
           </IconButton>
           <IconButton title="Export STL" onClick={props.onExportSTL} isActive={false}>
             <DownloadIcon className="w-5 h-5" />
           </IconButton>
+          <FormatToggle options={STL_FORMAT_OPTIONS} value={props.stlFormat} onChange={props.onStlFormatChange} />
+          <IconButton title="Export PLY" onClick={props.onExportPLY} isActive={false}>
+            <DownloadIcon className="w-5 h-5" />
+          </IconButton>
+          <FormatToggle options={PLY_FORMAT_OPTIONS} value={props.plyFormat} onChange={props.onPlyFormatChange} />
+          <IconButton title="Export 3MF" onClick={props.onExport3MF} isActive={false}>
+            <DownloadIcon className="w-5 h-5" />
+          </IconButton>
+          <IconButton title="Export glTF" onClick={props.onExportGLTF} isActive={false}>
+            <DownloadIcon className="w-5 h-5" />
+          </IconButton>
+          <FormatToggle options={GLTF_FORMAT_OPTIONS} value={props.gltfFormat} onChange={props.onGltfFormatChange} />
+          <IconButton title="Export USDZ" onClick={props.onExportUSDZ} isActive={false}>
+            <DownloadIcon className="w-5 h-5" />
+          </IconButton>
+          <IconButton title="Export all" onClick={props.onExportAll} isActive={false}>
+            <DownloadIcon className="w-5 h-5" />
+          </IconButton>
         </div>
       </div>
     </div>
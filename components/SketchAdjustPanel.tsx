@@ -0,0 +1,193 @@
+import React, { useEffect, useRef, useState } from 'react';
+import type { ImagePoint, SketchAdjustParams, SketchView } from '../types';
+import { SKETCH_VIEW_LABELS } from '../constants';
+import {
+  ADJUST_PREVIEW_RESOLUTION,
+  adjustedSketchFile,
+  adjustSketch,
+  DEFAULT_SKETCH_ADJUST,
+  FULL_IMAGE_CORNERS,
+  isIdentityAdjust,
+  loadSketchForAdjust,
+} from '../services/sketchAdjust';
+import { loadRasterSketch, RasterSketch } from '../services/sketchRaster';
+import { CheckCircleIcon, RedoIcon, TargetIcon, UndoIcon } from './icons';
+import { RangeField } from './RangeField';
+
+interface SketchAdjustPanelProps {
+  file: File;
+  view: SketchView;
+  onApply: (file: File) => void;
+  onSkip: () => void;
+}
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+/**
+ * First step after an upload: rotate, crop or de-skew and re-tone the photo. The four corner
+ * handles mark the area to keep; dragging them onto the corners of a photographed sheet of
+ * paper straightens it.
+ */
+export const SketchAdjustPanel: React.FC<SketchAdjustPanelProps> = ({ file, view, onApply, onSkip }) => {
+  const [params, setParams] = useState<SketchAdjustParams>(DEFAULT_SKETCH_ADJUST);
+  const [preview, setPreview] = useState<RasterSketch | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isApplying, setIsApplying] = useState(false);
+  const [draggedCorner, setDraggedCorner] = useState<number | null>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const frameRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadRasterSketch(file, ADJUST_PREVIEW_RESOLUTION)
+      .then((sketch) => !cancelled && setPreview(sketch))
+      .catch((e) => !cancelled && setError(e instanceof Error ? e.message : String(e)));
+    return () => {
+      cancelled = true;
+    };
+  }, [file]);
+
+  // The preview shows the whole rotated, re-toned image; the corners are drawn on top of it
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const context = canvas?.getContext('2d');
+    if (!canvas || !context || !preview) return;
+    const shown = adjustSketch(preview, { ...params, corners: FULL_IMAGE_CORNERS });
+    canvas.width = shown.width;
+    canvas.height = shown.height;
+    context.putImageData(new ImageData(new Uint8ClampedArray(shown.pixels), shown.width, shown.height), 0, 0);
+  }, [preview, params.rotation, params.brightness, params.contrast]);
+
+  const update = (changes: Partial<SketchAdjustParams>) => setParams((current) => ({ ...current, ...changes }));
+
+  // Corners belong to the rotated image, so a quarter turn starts them over
+  const turn = (degrees: number) => update({ rotation: (params.rotation + degrees + 360) % 360, corners: FULL_IMAGE_CORNERS });
+  const quarterTurns = Math.round(params.rotation / 90) * 90;
+  const straighten = params.rotation - quarterTurns;
+
+  const moveCorner = (event: React.PointerEvent) => {
+    const frame = frameRef.current;
+    if (draggedCorner === null || !frame) return;
+    const bounds = frame.getBoundingClientRect();
+    const point: ImagePoint = {
+      x: clamp01((event.clientX - bounds.left) / bounds.width),
+      y: clamp01((event.clientY - bounds.top) / bounds.height),
+    };
+    const corners = [...params.corners] as SketchAdjustParams['corners'];
+    corners[draggedCorner] = point;
+    update({ corners });
+  };
+
+  const handleApply = async () => {
+    if (isIdentityAdjust(params)) {
+      onApply(file);
+      return;
+    }
+    setIsApplying(true);
+    try {
+      const full = await loadSketchForAdjust(file);
+      onApply(await adjustedSketchFile(adjustSketch(full, params), file.name));
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+      setIsApplying(false);
+    }
+  };
+
+  const polygon = params.corners.map(({ x, y }) => `${x * 100},${y * 100}`).join(' ');
+
+  return (
+    <div className="fixed inset-0 bg-base-100/80 backdrop-blur-md z-40 flex items-center justify-center animate-fade-in p-4">
+      <div className="w-full max-w-4xl bg-base-200/90 border border-base-300 rounded-lg shadow-2xl p-6 flex flex-col gap-5">
+        <div className="flex items-center gap-3">
+          <TargetIcon className="w-6 h-6 text-brand-primary" />
+          <h2 className="text-lg font-bold">Adjust photo</h2>
+          <span className="text-sm text-content-muted">{SKETCH_VIEW_LABELS[view]} view</span>
+        </div>
+
+        <div className="h-[45vh] rounded-md bg-base-300/40 flex items-center justify-center overflow-hidden">
+          {preview ? (
+            <div
+              ref={frameRef}
+              className="relative max-w-full max-h-full touch-none"
+              onPointerMove={moveCorner}
+              onPointerUp={() => setDraggedCorner(null)}
+              onPointerLeave={() => setDraggedCorner(null)}
+            >
+              <canvas ref={canvasRef} className="block max-w-full max-h-[45vh]" />
+              <svg className="absolute inset-0 w-full h-full pointer-events-none" viewBox="0 0 100 100" preserveAspectRatio="none">
+                <polygon points={polygon} fill="rgba(57, 255, 20, 0.08)" stroke="#39FF14" strokeWidth="2" vectorEffect="non-scaling-stroke" />
+              </svg>
+              {params.corners.map(({ x, y }, i) => (
+                <button
+                  key={i}
+                  onPointerDown={(e) => {
+                    e.preventDefault();
+                    setDraggedCorner(i);
+                  }}
+                  aria-label={`Move corner ${i + 1}`}
+                  className="absolute w-4 h-4 -ml-2 -mt-2 rounded-full bg-brand-primary border-2 border-black cursor-move"
+                  style={{ left: `${x * 100}%`, top: `${y * 100}%` }}
+                />
+              ))}
+            </div>
+          ) : (
+            <span className="text-sm text-content-muted">{error ?? 'Loading...'}</span>
+          )}
+        </div>
+        {preview && error && <p className="text-sm text-red-400">{error}</p>}
+
+        <div className="grid grid-cols-2 gap-x-8 gap-y-3">
+          <div className="flex items-center justify-between gap-4">
+            <span className="text-sm font-medium text-content-muted">Rotate</span>
+            <div className="flex items-center gap-2">
+              <button onClick={() => turn(-90)} title="Rotate left" className="p-2 rounded-full bg-base-300/70 hover:bg-base-300 transition-colors">
+                <UndoIcon className="w-4 h-4" />
+              </button>
+              <button onClick={() => turn(90)} title="Rotate right" className="p-2 rounded-full bg-base-300/70 hover:bg-base-300 transition-colors">
+                <RedoIcon className="w-4 h-4" />
+              </button>
+              <button
+                onClick={() => update({ corners: FULL_IMAGE_CORNERS })}
+                className="text-xs text-content-muted hover:text-white px-2 transition-colors"
+              >
+                Reset corners
+              </button>
+            </div>
+          </div>
+          <RangeField
+            id="adjust-straighten" label="Straighten" unit="°"
+            value={straighten} min={-45} max={45}
+            onChange={(degrees) => update({ rotation: quarterTurns + degrees })}
+          />
+          <RangeField
+            id="adjust-brightness" label="Brightness" unit=""
+            value={params.brightness} min={-100} max={100}
+            onChange={(brightness) => update({ brightness })}
+          />
+          <RangeField
+            id="adjust-contrast" label="Contrast" unit=""
+            value={params.contrast} min={-100} max={100}
+            onChange={(contrast) => update({ contrast })}
+          />
+        </div>
+
+        <div className="flex items-center justify-end gap-3">
+          <button
+            onClick={onSkip}
+            className="bg-base-300 hover:bg-base-300/80 text-content font-bold py-2 px-5 rounded-full transition-colors duration-300"
+          >
+            Skip
+          </button>
+          <button
+            onClick={handleApply}
+            disabled={!preview || isApplying}
+            className="bg-brand-primary/80 hover:bg-brand-primary text-black font-bold py-2 px-5 rounded-full flex items-center justify-center transition-all duration-300 shadow-lg focus:outline-none focus:ring-4 focus:ring-brand-primary/50 disabled:opacity-50"
+          >
+            <CheckCircleIcon className="w-5 h-5 mr-2" />
+            {isApplying ? 'Applying...' : 'Apply'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,158 @@
+import React, { useEffect, useRef, useState } from 'react';
+import type { InkDetection, SketchPrepParams, SketchView } from '../types';
+import { SKETCH_VIEW_LABELS } from '../constants';
+import { DEFAULT_SKETCH_PREP, loadSketchForPrep, preparedSketchFile, preprocessSketch } from '../services/sketchPrep';
+import type { RasterSketch } from '../services/sketchRaster';
+import { CheckCircleIcon, ZapIcon } from './icons';
+import { RangeField } from './RangeField';
+
+interface SketchPrepPanelProps {
+  file: File;
+  view: SketchView;
+  onApply: (file: File) => void;
+  onSkip: () => void;
+}
+
+// Slider changes are batched so a full-size photo isn't reprocessed on every step
+const PREVIEW_DELAY_MS = 200;
+
+/**
+ * Before/after view of the SKETCH_PREP stage for an uploaded photo. The user tunes the
+ * cleanup and either applies it or keeps the original.
+ */
+export const SketchPrepPanel: React.FC<SketchPrepPanelProps> = ({ file, view, onApply, onSkip }) => {
+  const [params, setParams] = useState<SketchPrepParams>(DEFAULT_SKETCH_PREP);
+  const [original, setOriginal] = useState<RasterSketch | null>(null);
+  const [processed, setProcessed] = useState<RasterSketch | null>(null);
+  const [originalUrl, setOriginalUrl] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isApplying, setIsApplying] = useState(false);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const url = URL.createObjectURL(file);
+    setOriginalUrl(url);
+    let cancelled = false;
+    loadSketchForPrep(file)
+      .then((sketch) => !cancelled && setOriginal(sketch))
+      .catch((e) => !cancelled && setError(e instanceof Error ? e.message : String(e)));
+    return () => {
+      cancelled = true;
+      URL.revokeObjectURL(url);
+    };
+  }, [file]);
+
+  useEffect(() => {
+    if (!original) return;
+    const timer = window.setTimeout(() => setProcessed(preprocessSketch(original, params)), PREVIEW_DELAY_MS);
+    return () => window.clearTimeout(timer);
+  }, [original, params]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const context = canvas?.getContext('2d');
+    if (!canvas || !context || !processed) return;
+    canvas.width = processed.width;
+    canvas.height = processed.height;
+    context.putImageData(new ImageData(new Uint8ClampedArray(processed.pixels), processed.width, processed.height), 0, 0);
+  }, [processed]);
+
+  const update = (changes: Partial<SketchPrepParams>) => setParams((current) => ({ ...current, ...changes }));
+
+  const handleApply = async () => {
+    if (!processed) return;
+    setIsApplying(true);
+    try {
+      onApply(await preparedSketchFile(processed, file.name));
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+      setIsApplying(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-base-100/80 backdrop-blur-md z-40 flex items-center justify-center animate-fade-in p-4">
+      <div className="w-full max-w-4xl bg-base-200/90 border border-base-300 rounded-lg shadow-2xl p-6 flex flex-col gap-5">
+        <div className="flex items-center gap-3">
+          <ZapIcon className="w-6 h-6 text-brand-primary" />
+          <h2 className="text-lg font-bold">Clean up sketch</h2>
+          <span className="text-sm text-content-muted">{SKETCH_VIEW_LABELS[view]} view</span>
+        </div>
+
+        <div className="grid grid-cols-2 gap-4">
+          <figure className="flex flex-col gap-1">
+            <figcaption className="text-xs text-content-muted uppercase tracking-wider">Before</figcaption>
+            {originalUrl && <img src={originalUrl} alt="Original sketch" className="w-full h-64 object-contain rounded-md bg-white" />}
+          </figure>
+          <figure className="flex flex-col gap-1">
+            <figcaption className="text-xs text-content-muted uppercase tracking-wider">After</figcaption>
+            <div className="w-full h-64 rounded-md bg-white flex items-center justify-center">
+              {processed ? (
+                <canvas ref={canvasRef} className="max-w-full max-h-full" />
+              ) : (
+                <span className="text-sm text-gray-500">{error ?? 'Processing...'}</span>
+              )}
+            </div>
+          </figure>
+        </div>
+
+        <div className="grid grid-cols-2 gap-x-8 gap-y-3">
+          <div className="flex items-center justify-between gap-4">
+            <label htmlFor="prep-detection" className="text-sm font-medium text-content-muted">Find strokes by</label>
+            <select
+              id="prep-detection"
+              value={params.detection}
+              onChange={(e) => update({ detection: e.target.value as InkDetection })}
+              className="bg-base-300/70 text-content border border-base-300 rounded-full py-1.5 px-3 text-sm focus:ring-2 focus:ring-brand-primary focus:outline-none"
+            >
+              <option value="threshold">Adaptive threshold</option>
+              <option value="edges">Edge extraction</option>
+            </select>
+          </div>
+          <RangeField
+            id="prep-threshold" label={params.detection === 'edges' ? 'Edge strength' : 'Darkness'} unit="%"
+            value={params.threshold} min={1} max={50}
+            onChange={(threshold) => update({ threshold })}
+          />
+          <RangeField
+            id="prep-window" label="Lighting window" unit="%"
+            value={params.windowSize} min={1} max={25}
+            onChange={(windowSize) => update({ windowSize })}
+          />
+          <RangeField
+            id="prep-line-weight" label="Line weight" unit={params.lineWeight ? 'px' : ''}
+            value={params.lineWeight} min={0} max={12}
+            onChange={(lineWeight) => update({ lineWeight })}
+          />
+          <label className="flex items-center gap-2 text-sm font-medium text-content-muted cursor-pointer">
+            <input
+              type="checkbox"
+              checked={params.removeBackground}
+              onChange={(e) => update({ removeBackground: e.target.checked })}
+              style={{'accentColor': '#39FF14'}}
+            />
+            Remove background clutter
+          </label>
+          <p className="text-xs text-content-muted self-center">Line weight 0 keeps strokes as drawn.</p>
+        </div>
+
+        <div className="flex items-center justify-end gap-3">
+          <button
+            onClick={onSkip}
+            className="bg-base-300 hover:bg-base-300/80 text-content font-bold py-2 px-5 rounded-full transition-colors duration-300"
+          >
+            Keep original
+          </button>
+          <button
+            onClick={handleApply}
+            disabled={!processed || isApplying}
+            className="bg-brand-primary/80 hover:bg-brand-primary text-black font-bold py-2 px-5 rounded-full flex items-center justify-center transition-all duration-300 shadow-lg focus:outline-none focus:ring-4 focus:ring-brand-primary/50 disabled:opacity-50"
+          >
+            <CheckCircleIcon className="w-5 h-5 mr-2" />
+            Use cleaned sketch
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
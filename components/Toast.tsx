@@ -1,12 +1,20 @@
 import React, { useEffect, useState } from 'react';
 
+type ToastVariant = 'error' | 'warning';
+
 interface ToastProps {
   message: string | null;
   onDismiss: () => void;
   duration?: number;
+  variant?: ToastVariant;
 }
 
-export const Toast: React.FC<ToastProps> = ({ message, onDismiss, duration = 5000 }) => {
+const VARIANT_CLASSES: Record<ToastVariant, string> = {
+  error: 'bg-red-900/50 border-red-500/50',
+  warning: 'bg-amber-900/50 border-amber-500/50',
+};
+
+export const Toast: React.FC<ToastProps> = ({ message, onDismiss, duration = 5000, variant = 'error' }) => {
   const [isVisible, setIsVisible] = useState(false);
 
   useEffect(() => {
@@ -28,10 +36,11 @@ export const Toast: React.FC<ToastProps> = ({ message, onDismiss, duration = 500
 
   return (
     <div 
-      className={`fixed top-24 left-1/2 -translate-x-1/2 z-50 p-4 rounded-lg shadow-2xl border bg-red-900/50 border-red-500/50 backdrop-blur-md text-white transition-all duration-300 ${isVisible ? 'opacity-100 translate-y-0' : 'opacity-0 -translate-y-5'}`}
+      className={`fixed top-24 left-1/2 -translate-x-1/2 z-50 p-4 rounded-lg shadow-2xl border ${VARIANT_CLASSES[variant]} backdrop-blur-md text-white transition-all duration-300 ${isVisible ? 'opacity-100 translate-y-0' : 'opacity-0 -translate-y-5'}`}
       onClick={onDismiss}
     >
-      <p className="font-bold text-center">{message}</p>
+      {/* Multi-line messages (e.g. one line per variation) keep their line breaks */}
+      <p className="font-bold text-center whitespace-pre-line">{message}</p>
     </div>
   );
 };
@@ -1,15 +1,18 @@
-import React, { Suspense, forwardRef, useMemo, useState, useRef, useEffect } from 'react';
+import React, { Suspense, forwardRef, useMemo, useState, useRef } from 'react';
 import { Canvas, useFrame, ThreeEvent, useThree } from '@react-three/fiber';
 import { OrbitControls, Icosahedron, Html, Environment, TransformControls } from '@react-three/drei';
 import { XR, createXRStore, useXR, useXRHitTest } from '@react-three/xr'; 
 import * as THREE from 'three';
-import type { ShadingMode, LightingPreset, GeneratedGeometry } from '../types'; 
+import type { ShadingMode, LightingPreset, GeneratedGeometry, PipelineStage, PipelineStatus } from '../types'; 
+import { PIPELINE_STAGES, formatDuration } from '../services/pipeline';
+import { modelMaterialParams, toFloat32Array, toUint32Array } from '../services/meshUtils';
 
 export const store = createXRStore();
 
 interface ViewerProps {
   geometry: GeneratedGeometry | null;
   isGenerating: boolean;
+  pipelineStatus: PipelineStatus;
   modelRef: React.RefObject<THREE.Group>;
   shadingMode: ShadingMode;
   lightingPreset: LightingPreset;
@@ -170,11 +173,7 @@ const GeneratedModel = forwardRef<THREE.Mesh, GeneratedModelProps>(({ geometry,
           <meshStandardMaterial 
               key={useVertexColors ? "colored" : "clay"} 
               ref={materialRef}
-              color="#FFFFFF" 
-              vertexColors={useVertexColors} 
-              roughness={useVertexColors ? 0.8 : 0.5} 
-              metalness={useVertexColors ? 0.0 : 0.3} 
-              envMapIntensity={useVertexColors ? 0.5 : 1.0}
+              {...modelMaterialParams(useVertexColors)}
               transparent opacity={0}
               wireframe={shadingMode === 'wireframe'}
           />
@@ -199,37 +198,20 @@ const Placeholder: React.FC = () => {
     )
 }
 
-// --- Terminal Loader (Restored Animation) ---
-const LOG_LINES = [
-  "> INITIALIZING NEURAL PATHWAYS...",
-  "> CONNECTING TO GPU CLUSTER...",
-  "> ANALYZING SKETCH TOPOLOGY...",
-  "> DETECTING EDGES...",
-  "> GENERATING DEPTH MAP...",
-  "> EXTRUDING GEOMETRY...",
-  "> OPTIMIZING MESH DENSITY...",
-  "> CALCULATING NORMALS...",
-  "> APPLYING TEXTURE...",
-  "> FINALIZING MODEL..."
-];
-
-const TerminalLoader: React.FC<{ sketchPreview: string | null }> = ({ sketchPreview }) => {
-    const [logs, setLogs] = useState<string[]>([]);
+// --- Terminal Loader (one log line per pipeline stage the backend has reached) ---
+const toLogLine = (stage: PipelineStage, status: PipelineStatus) => {
+    const seconds = status.stageDurations[stage];
+    const timing = seconds !== undefined ? ` ${formatDuration(seconds)}` : '';
+    const state = status.completedStages.has(stage) ? 'DONE' : 'RUNNING';
+    return `> ${stage.toUpperCase()}... ${state}${timing}`;
+};
 
-    // Restore the typing animation effect
-    useEffect(() => {
-        let currentIndex = 0;
-        const interval = setInterval(() => {
-            if (currentIndex < LOG_LINES.length) {
-                setLogs(prev => [...prev.slice(-4), LOG_LINES[currentIndex]]); 
-                currentIndex++;
-            } else {
-                currentIndex = 0;
-                setLogs([]);
-            }
-        }, 800);
-        return () => clearInterval(interval);
-    }, []);
+const TerminalLoader: React.FC<{ sketchPreview: string | null; pipelineStatus: PipelineStatus }> = ({ sketchPreview, pipelineStatus }) => {
+    const logs = PIPELINE_STAGES
+        .filter((stage) => pipelineStatus.completedStages.has(stage) || pipelineStatus.currentStage === stage)
+        .map((stage) => toLogLine(stage, pipelineStatus))
+        .slice(-5);
+    if (logs.length === 0) logs.push("> SUBMITTING JOB...");
 
     return (
         <Html center>
@@ -244,7 +226,9 @@ const TerminalLoader: React.FC<{ sketchPreview: string | null }> = ({ sketchPrev
                 <div className="flex-grow font-mono text-xs space-y-1 text-left">
                     <div className="border-b border-white/10 pb-1 mb-2 text-brand-primary font-bold flex justify-between">
                         <span>SYSTEM STATUS</span>
-                        <span className="animate-pulse text-brand-secondary">PROCESSING</span>
+                        <span className="animate-pulse text-brand-secondary">
+                            {pipelineStatus.etaSeconds !== null ? `ETA ${formatDuration(pipelineStatus.etaSeconds)}` : 'PROCESSING'}
+                        </span>
                     </div>
                     {logs.map((log, i) => (
                         <div key={i} className="text-brand-primary/80 animate-fade-in-fast">
@@ -266,12 +250,16 @@ const ModelWrapper: React.FC<ViewerProps> = (props) => {
     const [geometry, modelCenter] = useMemo(() => {
         if (!props.geometry) return [null, null];
         try {
+            // Typed arrays from the binary transport are shared as-is. Positions are the one
+            // exception: center() below moves them in place, and exports need the originals.
+            const { vertices, faces, colors } = props.geometry;
+            const positions = vertices instanceof Float32Array ? vertices.slice() : toFloat32Array(vertices);
             const geo = new THREE.BufferGeometry();
-            geo.setAttribute('position', new THREE.Float32BufferAttribute(props.geometry.vertices, 3));
-            if (props.geometry.colors && props.geometry.colors.length > 0) {
-               geo.setAttribute('color', new THREE.Float32BufferAttribute(props.geometry.colors, 3));
+            geo.setAttribute('position', new THREE.BufferAttribute(positions, 3));
+            if (colors && colors.length > 0) {
+               geo.setAttribute('color', new THREE.BufferAttribute(toFloat32Array(colors), 3));
             }
-            geo.setIndex(props.geometry.faces);
+            geo.setIndex(new THREE.BufferAttribute(toUint32Array(faces), 1));
             geo.computeVertexNormals(); 
             geo.center(); 
             
@@ -327,7 +315,7 @@ export const Viewer: React.FC<ViewerProps> = (props) => {
                     <shadowMaterial opacity={0.3} />
                 </mesh>
             </Suspense>
-            {props.isGenerating && <TerminalLoader sketchPreview={props.sketchPreview} />}
+            {props.isGenerating && <TerminalLoader sketchPreview={props.sketchPreview} pipelineStatus={props.pipelineStatus} />}
         </XR>
       </Canvas>
       {!props.geometry && !props.isGenerating && (
@@ -10,12 +10,58 @@ import { LoginPage } from './LoginPage';
 import { SignUpPage } from './SignUpPage';
 import { Toast } from './Toast';
 import { DrawingCanvas } from './DrawingCanvas';
+import { ContourModelingPanel } from './ContourModelingPanel';
+import { SketchPrepPanel } from './SketchPrepPanel';
+import { SketchAdjustPanel } from './SketchAdjustPanel';
+import { BatchQueuePanel } from './BatchQueuePanel';
+import { ExportAllPanel } from './ExportAllPanel';
+import { ExportSettingsPanel } from './ExportSettingsPanel';
+import {
+  followGenerationJob,
+  getGenerationBackend,
+  isAbortError,
+  runGenerationJob,
+  RunJobOptions,
+} from '../services/generationClient';
+import { createIdlePipelineStatus } from '../services/pipeline';
+import { formatValidationReports, validateGeometries, validateGeometry, VariationReport } from '../services/meshValidation';
+import { inflateSketch } from '../services/sketchInflation';
+import { buildContourModel } from '../services/contourModeling';
+import { createBatchItem, runBatch } from '../services/batchQueue';
+import { generationMeta, hashSketchFiles, resolveSeeds, withGenerationMeta } from '../services/generationParams';
+import { loadPromptPresets, savePromptPresets, upsertPromptPreset } from '../services/promptPresets';
+import { refinementLineage } from '../services/refinement';
+import { export3MF, exportGLTF, exportOBJ, exportPLY, exportSTL, exportUSDZ, openInQuickLook, saveFile } from '../services/meshExport';
+import { exportAllVariations } from '../services/exportArchive';
+import { loadExportSettings, saveExportSettings } from '../services/exportSettings';
+import { clearActiveJob, dataUrlToFile, loadActiveJob, PersistedJob, saveActiveJob } from '../services/jobStore';
 import { auth } from './firebase';
 import { onAuthStateChanged, User, signOut } from 'firebase/auth';
-import { GeneratedGeometry, WorkflowStep, ShadingMode, LightingPreset } from '../types';
+import { DEFAULT_MODEL_ID, DEFAULT_PROMPT, DEFAULT_PROMPT_OPTIONS, EXTRA_SKETCH_VIEWS, MODEL_CAPABILITIES } from '../constants';
+import { BatchItem, ContourModelingRequest, ExportFormat, ExportSettings, ExtraSketchView, GeneratedGeometry, GenerationParams, GenerationBackend, ModelId, PromptOptions, PromptPreset, WorkflowStep, ShadingMode, LightingPreset, PipelineStatus, StlFormat, GltfFormat, PlyFormat, SketchView, SketchViewImage, VariationSlot } from '../types';
 
 type AuthScreen = 'login' | 'signup';
 
+// The job the workspace is currently following
+interface ActiveGeneration {
+  controller: AbortController;
+  backend: GenerationBackend;
+  // Known once the backend has accepted the job
+  jobId: string | null;
+}
+
+type ExtraViews<T> = Partial<Record<ExtraSketchView, T>>;
+
+// Applies `pick` to each side or top view that is present
+const mapExtraViews = <T,>(views: ExtraViews<SketchViewImage>, pick: (image: SketchViewImage) => T): ExtraViews<T> => {
+  const mapped: ExtraViews<T> = {};
+  for (const view of EXTRA_SKETCH_VIEWS) {
+    const image = views[view];
+    if (image) mapped[view] = pick(image);
+  }
+  return mapped;
+};
+
 const Workspace: React.FC = () => {
   const navigate = useNavigate();
 
@@ -26,22 +72,65 @@ const Workspace: React.FC = () => {
   
   // --- APPLICATION STATE ---
   const [sketchFile, setSketchFile] = useState<File | null>(null);
-  const [isDrawing, setIsDrawing] = useState<boolean>(false);
+  // Optional side and top views accompanying the front sketch
+  const [extraViews, setExtraViews] = useState<ExtraViews<SketchViewImage>>({});
+  // Each view as uploaded or drawn, before adjustment and cleanup; missing views were never changed
+  const [originalSketches, setOriginalSketches] = useState<Partial<Record<SketchView, File>>>({});
+  // The view open in the drawing canvas, if any
+  const [drawingView, setDrawingView] = useState<SketchView | null>(null);
+  // Set when the canvas edits the current sketch rather than starting a new one
+  const [isEditingSketch, setIsEditingSketch] = useState<boolean>(false);
+  // An uploaded view being adjusted (crop, rotate, de-skew), then cleaned up
+  const [adjustTarget, setAdjustTarget] = useState<{ view: SketchView; file: File } | null>(null);
+  const [prepTarget, setPrepTarget] = useState<{ view: SketchView; file: File } | null>(null);
+  const [isContourModeling, setIsContourModeling] = useState<boolean>(false);
+  const [isBuildingContours, setIsBuildingContours] = useState<boolean>(false);
+  const [isInflating, setIsInflating] = useState<boolean>(false);
   const [isGenerating, setIsGenerating] = useState<boolean>(false);
+  const [pipelineStatus, setPipelineStatus] = useState<PipelineStatus>(createIdlePipelineStatus);
   const [workflowStep, setWorkflowStep] = useState<WorkflowStep>('upload');
   const [generatedGeometries, setGeneratedGeometries] = useState<GeneratedGeometry[]>([]);
   const [selectedGeometryIndex, setSelectedGeometryIndex] = useState<number | null>(0);
+  // Every requested variation of a streamed run, including pending and failed ones
+  const [variationSlots, setVariationSlots] = useState<VariationSlot[]>([]);
+  // The variation the next generation refines, sent to the backend as conditioning
+  const [refineTarget, setRefineTarget] = useState<{ geometry: GeneratedGeometry; index: number } | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const [warning, setWarning] = useState<string | null>(null);
   const [sketchPreview, setSketchPreview] = useState<string | null>(null); 
   const modelRef = useRef<THREE.Group>(null!);
+  // Generation in flight, if any; aborting its controller makes its results be ignored
+  const activeGenerationRef = useRef<ActiveGeneration | null>(null);
+  const hasResumedRef = useRef<boolean>(false);
+
+  // --- BATCH STATE ---
+  const [batchItems, setBatchItems] = useState<BatchItem[]>([]);
+  const [isBatchOpen, setIsBatchOpen] = useState<boolean>(false);
+  const [isBatchRunning, setIsBatchRunning] = useState<boolean>(false);
+  const [batchConcurrency, setBatchConcurrency] = useState<number>(1);
+  const batchControllerRef = useRef<AbortController | null>(null);
 
   // --- CONTROL STATE ---
   const [textPrompt, setTextPrompt] = useState<string>('');
   const [numberOfVariations, setNumberOfVariations] = useState<number>(1);
+  const [modelId, setModelId] = useState<ModelId>(DEFAULT_MODEL_ID);
+  const [promptOptions, setPromptOptions] = useState<PromptOptions>(DEFAULT_PROMPT_OPTIONS);
+  // The signed-in user's saved presets
+  const [promptPresets, setPromptPresets] = useState<PromptPreset[]>([]);
+  // Seed to reuse for each variation index; null draws a new one every run
+  const [lockedSeeds, setLockedSeeds] = useState<(number | null)[]>([]);
 
   // --- VIEWER STATE ---
   const [shadingMode, setShadingMode] = useState<ShadingMode>('shaded');
   const [lightingPreset, setLightingPreset] = useState<LightingPreset>('studio');
+  const [stlFormat, setStlFormat] = useState<StlFormat>('binary');
+  const [gltfFormat, setGltfFormat] = useState<GltfFormat>('glb');
+  const [plyFormat, setPlyFormat] = useState<PlyFormat>('binary');
+  const [isExportAllOpen, setIsExportAllOpen] = useState<boolean>(false);
+  const [exportAllFormats, setExportAllFormats] = useState<ExportFormat[]>(['obj', 'stl']);
+  const [isExportingAll, setIsExportingAll] = useState<boolean>(false);
+  const [exportSettings, setExportSettings] = useState<ExportSettings>(loadExportSettings);
+  const [isExportSettingsOpen, setIsExportSettingsOpen] = useState<boolean>(false);
   
   // --- COLORING & EDITING STATE ---
   const [showColors, setShowColors] = useState<boolean>(false);
@@ -56,6 +145,11 @@ const Workspace: React.FC = () => {
     return () => unsubscribe();
   }, []);
 
+  // Each user has their own prompt presets
+  useEffect(() => {
+    setPromptPresets(currentUser ? loadPromptPresets(currentUser.uid) : []);
+  }, [currentUser]);
+
   // --- AUTH FUNCTIONS ---
   const handleSignOut = async () => {
     try {
@@ -68,12 +162,45 @@ const Workspace: React.FC = () => {
   const navigateToSignUp = () => setAuthScreen('signup');
   const navigateToLogin = () => setAuthScreen('login');
 
+  // Stop polling if the user leaves the workspace mid-generation; the job stays
+  // persisted, so coming back reattaches to it
+  useEffect(() => () => activeGenerationRef.current?.controller.abort(), []);
+  // Batch jobs aren't persisted, so leaving cancels them
+  useEffect(() => () => batchControllerRef.current?.abort(), []);
+
   // --- CORE APP FUNCTIONS ---
+  // Stops following the current job and tells the backend to stop working on it
+  const abortGeneration = useCallback(() => {
+    const active = activeGenerationRef.current;
+    activeGenerationRef.current = null;
+    if (!active) return;
+
+    active.controller.abort();
+    clearActiveJob();
+    if (active.jobId) {
+      const { jobId } = active;
+      active.backend.cancelJob(jobId).catch((e) => console.warn(`Could not cancel job ${jobId}:`, e));
+    }
+  }, []);
+
+  const handleCancelGeneration = useCallback(() => {
+    abortGeneration();
+    setIsGenerating(false);
+    setPipelineStatus(createIdlePipelineStatus());
+    // Variations that already arrived stay; the rest won't come anymore
+    setVariationSlots((slots) => slots.map((slot) => (slot.state === 'pending' ? { state: 'failed', error: "Cancelled" } : slot)));
+  }, [abortGeneration]);
+
   const handleResetVariations = useCallback(() => {
+    abortGeneration();
     setIsGenerating(false);
+    setPipelineStatus(createIdlePipelineStatus());
+    setRefineTarget(null);
     setGeneratedGeometries([]);
+    setVariationSlots([]);
     setSelectedGeometryIndex(null);
     setError(null);
+    setWarning(null);
     setShowColors(false);
     setIsEditing(false);
     
@@ -82,11 +209,17 @@ const Workspace: React.FC = () => {
     if (sketchFile) {
       setWorkflowStep('generating');
     }
-  }, [sketchFile]);
+  }, [sketchFile, abortGeneration]);
 
   const handleFileChange = (file: File | null) => {
     if (file) {
+      abortGeneration();
       setSketchFile(file);
+      setExtraViews({});
+      setOriginalSketches({ front: file });
+      // The previous sketch's mesh and seeds mean nothing for a new one
+      setRefineTarget(null);
+      setLockedSeeds([]);
       const reader = new FileReader();
       reader.onloadend = () => {
         setSketchPreview(reader.result as string);
@@ -95,19 +228,91 @@ const Workspace: React.FC = () => {
       // Here we DO want to reset and go to generating
       setIsGenerating(false);
       setGeneratedGeometries([]);
+      setVariationSlots([]);
       setSelectedGeometryIndex(null);
       setError(null);
+      setWarning(null);
       setShowColors(false);
       setIsEditing(false);
       setWorkflowStep('generating');
     }
   };
 
+  // Adds, replaces or (with null) removes a side or top view
+  const handleExtraViewChange = (view: ExtraSketchView, file: File | null) => {
+    if (!file) {
+      setExtraViews((views) => {
+        const next = { ...views };
+        delete next[view];
+        return next;
+      });
+      return;
+    }
+    const reader = new FileReader();
+    reader.onloadend = () => {
+      setExtraViews((views) => ({ ...views, [view]: { file, preview: reader.result as string } }));
+    };
+    reader.readAsDataURL(file);
+  };
+
+  // Uploaded photos are adjusted and then cleaned up; drawn sketches are clean already
+  const handleSketchUpload = (file: File | null) => {
+    handleFileChange(file);
+    if (file) setAdjustTarget({ view: 'front', file });
+  };
+
+  const recordOriginalSketch = (view: ExtraSketchView, file: File | null) =>
+    setOriginalSketches((originals) => {
+      const next = { ...originals };
+      if (file) next[view] = file;
+      else delete next[view];
+      return next;
+    });
+
+  const handleExtraViewUpload = (view: ExtraSketchView, file: File | null) => {
+    handleExtraViewChange(view, file);
+    recordOriginalSketch(view, file);
+    if (file) setAdjustTarget({ view, file });
+  };
+
+  // Swaps in an edited image without resetting anything else
+  const replaceViewImage = (view: SketchView, file: File) => {
+    if (view === 'front') {
+      setSketchFile(file);
+      const reader = new FileReader();
+      reader.onloadend = () => {
+        setSketchPreview(reader.result as string);
+      };
+      reader.readAsDataURL(file);
+    } else {
+      handleExtraViewChange(view, file);
+    }
+  };
+
+  // Applied or skipped, the adjusted image moves on to the cleanup preview
+  const handleAdjustDone = (file: File) => {
+    if (!adjustTarget) return;
+    if (file !== adjustTarget.file) replaceViewImage(adjustTarget.view, file);
+    setPrepTarget({ view: adjustTarget.view, file });
+    setAdjustTarget(null);
+  };
+
+  const handlePrepApply = (file: File) => {
+    if (!prepTarget) return;
+    replaceViewImage(prepTarget.view, file);
+    setPrepTarget(null);
+  };
+
   // --- FIXED: HANDLE START OVER ---
   const handleStartOver = useCallback(() => {
+    // 0. Stop any running job so it can't overwrite the fresh state later
+    abortGeneration();
+
     // 1. Clear File Data
     setSketchFile(null);
+    setOriginalSketches({});
     setSketchPreview(null);
+    setExtraViews({});
     
     // 2. Force Step to Upload
     setWorkflowStep('upload');
@@ -115,95 +320,434 @@ const Workspace: React.FC = () => {
     // 3. Manually reset other states (Do NOT call handleResetVariations here)
     setIsGenerating(false);
     setGeneratedGeometries([]);
+    setVariationSlots([]);
     setSelectedGeometryIndex(null);
     setError(null);
+    setWarning(null);
     setShowColors(false);
     setIsEditing(false);
     setTextPrompt(''); // Clear prompt too for a fresh start
-  }, []);
-
-  const handleGeneration = async () => {
-    if (!sketchFile) {
-      setError("Please upload a sketch first.");
-      return;
-    }
+    setLockedSeeds([]);
+    setRefineTarget(null);
+  }, [abortGeneration]);
 
-    // ⚠️ PASTE YOUR NGROK URL HERE ⚠️
-    const BACKEND_URL = "https://uncorroboratively-olivary-elissa.ngrok-free.dev/generate-mesh/"; 
-
-    if (BACKEND_URL.includes("your-ngrok-url-here")) {
-        setError("Please update the BACKEND_URL in components/Workspace.tsx");
-        return;
-    }
+  /**
+   * Follows a generation job from start to finish: persists it once it has an id,
+   * feeds its progress to the UI, and ignores anything that arrives after it was cancelled.
+   */
+  const trackGeneration = async (
+    backend: GenerationBackend,
+    draft: Omit<PersistedJob, 'jobId'>,
+    start: (options: RunJobOptions) => Promise<GeneratedGeometry[]>,
+  ) => {
+    abortGeneration();
+    const active: ActiveGeneration = { controller: new AbortController(), backend, jobId: null };
+    activeGenerationRef.current = active;
+    const { signal } = active.controller;
 
     setIsGenerating(true);
     setError(null);
+    setWarning(null);
     setGeneratedGeometries([]);
+    setVariationSlots([]);
     setSelectedGeometryIndex(null);
+    setPipelineStatus(createIdlePipelineStatus());
     setWorkflowStep('generating');
-    
+
+    // Jobs persisted before seeds were recorded can't be described fully
+    const run = draft.seeds && draft.sketchHash && draft.promptOptions
+      ? {
+        prompt: draft.prompt || DEFAULT_PROMPT,
+        options: draft.promptOptions,
+        model: draft.model,
+        variations: draft.variations,
+        seeds: draft.seeds,
+        sketchHash: draft.sketchHash,
+      }
+      : null;
+
+    // Streamed variations by requested index; the results list shows the valid ones in that order
+    const slots: VariationSlot[] = Array.from({ length: draft.variations }, () => ({ state: 'pending' }));
+    const ready = new Map<number, GeneratedGeometry>();
+    const streamReports: VariationReport[] = [];
+    let isStreamed = false;
+
+    const showStreamed = () => {
+      setVariationSlots([...slots]);
+      setGeneratedGeometries([...ready.entries()].sort(([a], [b]) => a - b).map(([, geometry]) => geometry));
+      setWarning(streamReports.length > 0 ? formatValidationReports(streamReports) : null);
+    };
+
+    const failVariation = (index: number, error: string) => {
+      if (signal.aborted || index >= slots.length) return;
+      isStreamed = true;
+      slots[index] = { state: 'failed', error };
+      showStreamed();
+    };
+
+    // Each variation is validated on arrival and shown right away; the first one opens the results
+    const addVariation = (index: number, candidate: GeneratedGeometry) => {
+      if (signal.aborted || index >= slots.length) return;
+      isStreamed = true;
+      const { geometry, issues } = validateGeometry({ ...candidate, meta: generationMeta(index, draft.model, run, draft.lineage) });
+      if (issues.length > 0) streamReports.push({ index, issues, dropped: !geometry });
+      if (!geometry) {
+        failVariation(index, issues.join('; '));
+        return;
+      }
+      const position = [...ready.keys()].filter((other) => other < index).length;
+      ready.set(index, geometry);
+      slots[index] = { state: 'ready' };
+      showStreamed();
+      // Keep the variation being looked at selected when one arrives in front of it
+      setSelectedGeometryIndex((selected) => (selected === null ? 0 : selected >= position ? selected + 1 : selected));
+      setRefineTarget(null);
+      setWorkflowStep('results');
+    };
+
     try {
-      const formData = new FormData();
-      formData.append("file", sketchFile, sketchFile.name);
-      formData.append("prompt", textPrompt || "a 3d model");
-      formData.append("variations", String(numberOfVariations));
-      
-      const response = await fetch(BACKEND_URL, {
-        method: "POST",
-        headers: {
-          "ngrok-skip-browser-warning": "69420", 
+      const geometries = await start({
+        signal,
+        onSubmitted: (jobId) => {
+          active.jobId = jobId;
+          saveActiveJob({ ...draft, jobId });
         },
-        body: formData,
+        onProgress: (status) => {
+          if (!signal.aborted) setPipelineStatus(status);
+        },
+        onRetry: (e, attempt) => console.warn(`Generation request failed, retrying (attempt ${attempt}):`, e),
+        onVariation: addVariation,
+        onVariationFailed: failVariation,
       });
+      if (signal.aborted) return;
+      
+      clearActiveJob();
+      if (isStreamed) {
+        slots.forEach((slot, index) => {
+          if (slot.state === 'pending') slots[index] = { state: 'failed', error: "The server didn't return this variation." };
+        });
+        showStreamed();
+        if (ready.size === 0) {
+          throw new Error(`All generated variations failed.\n${slots.map((slot, index) => `Variation ${index + 1}: ${slot.error}`).join('\n')}`);
+        }
+        return;
+      }
 
-      if (!response.ok) {
-        const errData = await response.json();
-        throw new Error(`Backend Error: ${errData.detail || response.statusText}`);
+      const { geometries: validGeometries, reports } = validateGeometries(withGenerationMeta(geometries, draft.model, run, draft.lineage));
+      if (validGeometries.length === 0) {
+        throw new Error(`All generated variations were invalid.\n${formatValidationReports(reports)}`);
       }
-      
-      const results = await response.json();
-      if (!Array.isArray(results) || results.length === 0) {
-        throw new Error("The model failed to return valid 3D data.");
+      // Repaired or discarded variations are worth knowing about, but aren't fatal
+      setWarning(reports.length > 0 ? formatValidationReports(reports) : null);
+      setRefineTarget(null);
+      setGeneratedGeometries(validGeometries);
+      setSelectedGeometryIndex(0);
+      setWorkflowStep('results');
+
+    } catch (e) {
+      // Cancelled (or superseded) by the user: nothing to report
+      if (signal.aborted || isAbortError(e)) return;
+      clearActiveJob();
+      console.error(e);
+      const message = e instanceof Error ? e.message : String(e);
+      // fetch only rejects with a TypeError when the server can't be reached at all
+      const offlineHint = e instanceof TypeError ? ' The server is unreachable; try "Offline" to generate in the browser.' : '';
+      setError(`Generation Error: ${message}${offlineHint}`);
+      // Variations that made it before the job failed are kept
+      if (ready.size > 0) {
+        slots.forEach((slot, index) => {
+          if (slot.state === 'pending') slots[index] = { state: 'failed', error: message };
+        });
+        showStreamed();
+        return;
+      }
+      setWorkflowStep('generating');
+    } finally {
+      if (activeGenerationRef.current === active) {
+        activeGenerationRef.current = null;
+        setIsGenerating(false);
       }
+    }
+  };
+
+  const handleGeneration = async () => {
+    if (!sketchFile) {
+      setError("Please upload a sketch first.");
+      return;
+    }
+
+    const backend = getGenerationBackend();
+    const views = mapExtraViews(extraViews, (image) => image.file);
+    const seeds = resolveSeeds(numberOfVariations, lockedSeeds);
+    let sketchHash: string;
+    try {
+      sketchHash = await hashSketchFiles([sketchFile, ...EXTRA_SKETCH_VIEWS.flatMap((view) => views[view] ?? [])]);
+    } catch (e) {
+      setError(`Could not read the sketch: ${e instanceof Error ? e.message : String(e)}`);
+      return;
+    }
+    const request = {
+      sketch: sketchFile,
+      extraViews: views,
+      prompt: textPrompt || DEFAULT_PROMPT,
+      options: promptOptions,
+      variations: numberOfVariations,
+      seeds,
+      model: modelId,
+      capabilities: MODEL_CAPABILITIES[modelId],
+      conditioning: refineTarget?.geometry,
+    };
+    const draft = {
+      backendName: backend.name,
+      prompt: textPrompt,
+      promptOptions,
+      variations: numberOfVariations,
+      model: modelId,
+      sketchName: sketchFile.name,
+      sketchDataUrl: sketchPreview,
+      extraViews: mapExtraViews(extraViews, (image) => ({ name: image.file.name, dataUrl: image.preview })),
+      seeds,
+      sketchHash,
+      lineage: refineTarget ? refinementLineage(refineTarget.geometry, refineTarget.index) : undefined,
+      submittedAt: Date.now(),
+    };
+    await trackGeneration(backend, draft, (options) => runGenerationJob(backend, request, options));
+  };
 
-      const geometries: GeneratedGeometry[] = results.map((res: any) => {
-        if (!res.vertices || !res.faces) return null;
-        return {
-          vertices: res.vertices,
-          faces: res.faces,
-          colors: res.colors || []
-        };
-      }).filter((g: GeneratedGeometry | null) => g !== null);
-
-      if (geometries.length === 0) {
-        throw new Error("All generated variations were invalid.");
+  // Inflates the sketch's outline right in the browser; needs no backend at all
+  const handleOfflineGeneration = async () => {
+    if (!sketchFile) {
+      setError("Please upload a sketch first.");
+      return;
+    }
+
+    if (isInflating) return;
+
+    abortGeneration();
+    setIsGenerating(false);
+    setIsInflating(true);
+    setError(null);
+    setWarning(null);
+    try {
+      const geometries = await inflateSketch(sketchFile, numberOfVariations);
+      const { geometries: validGeometries, reports } = validateGeometries(
+        geometries.map((geometry) => ({ ...geometry, meta: { source: 'offline-inflation' } })),
+      );
+      if (validGeometries.length === 0) {
+        throw new Error(`All generated variations were invalid.\n${formatValidationReports(reports)}`);
       }
-      
-      setGeneratedGeometries(geometries);
+      setWarning(reports.length > 0 ? formatValidationReports(reports) : null);
+      setRefineTarget(null);
+      setGeneratedGeometries(validGeometries);
+      setVariationSlots([]);
       setSelectedGeometryIndex(0);
       setWorkflowStep('results');
+    } catch (e) {
+      console.error(e);
+      setError(`Offline Generation Error: ${e instanceof Error ? e.message : String(e)}`);
+    } finally {
+      setIsInflating(false);
+    }
+  };
 
+  const handleOpenContourModeling = () => {
+    if (!sketchFile) {
+      setError("Please upload a sketch first.");
+      return;
+    }
+    setIsContourModeling(true);
+  };
+
+  // Extrudes or revolves the sketch's contours; like the offline generator it runs in the browser
+  const handleContourModeling = async (request: ContourModelingRequest) => {
+    if (!sketchFile) return;
+
+    abortGeneration();
+    setIsGenerating(false);
+    setError(null);
+    setWarning(null);
+    setIsBuildingContours(true);
+    try {
+      const model = await buildContourModel(sketchFile, request);
+      // Lathe profiles touching the axis collapse into degenerate triangles, which this cleans up
+      const { geometries } = validateGeometries([model]);
+      if (geometries.length === 0) throw new Error("The contours produced no usable surface.");
+      setRefineTarget(null);
+      setGeneratedGeometries([{ ...geometries[0], meta: model.meta }]);
+      setVariationSlots([]);
+      setSelectedGeometryIndex(0);
+      setIsContourModeling(false);
+      setWorkflowStep('results');
     } catch (e) {
       console.error(e);
-      setError(`Generation Error: ${e instanceof Error ? e.message : String(e)}`);
-      setWorkflowStep(sketchFile ? 'generating' : 'upload');
+      setError(`Contour Modelling Error: ${e instanceof Error ? e.message : String(e)}`);
     } finally {
-      setIsGenerating(false);
+      setIsBuildingContours(false);
     }
   };
 
+  // --- BATCH GENERATION ---
+  const handleBatchFiles = (files: File[]) => {
+    setBatchItems((items) => [...items, ...files.map((file) => createBatchItem(file, numberOfVariations))]);
+    setIsBatchOpen(true);
+  };
+
+  const handleBatchItemChange = useCallback((id: string, changes: Partial<BatchItem>) => {
+    setBatchItems((items) => items.map((item) => (item.id === id ? { ...item, ...changes } : item)));
+  }, []);
+
+  const handleBatchRemove = (id: string) => {
+    const removed = batchItems.find((item) => item.id === id);
+    if (removed) URL.revokeObjectURL(removed.preview);
+    setBatchItems((items) => items.filter((item) => item.id !== id));
+  };
+
+  const handleBatchStart = async () => {
+    const controller = new AbortController();
+    batchControllerRef.current = controller;
+    setIsBatchRunning(true);
+    try {
+      await runBatch(getGenerationBackend(), batchItems, {
+        model: modelId,
+        promptOptions,
+        concurrency: batchConcurrency,
+        signal: controller.signal,
+        onItemUpdate: handleBatchItemChange,
+      });
+    } finally {
+      if (batchControllerRef.current === controller) batchControllerRef.current = null;
+      setIsBatchRunning(false);
+    }
+  };
+
+  // Opens a finished batch item in the viewer as if it had been generated on its own
+  const handleBatchView = (id: string) => {
+    const item = batchItems.find((candidate) => candidate.id === id);
+    if (!item) return;
+    abortGeneration();
+    setSketchFile(item.file);
+    const reader = new FileReader();
+    reader.onloadend = () => {
+      setSketchPreview(reader.result as string);
+    };
+    reader.readAsDataURL(item.file);
+    setExtraViews({});
+    setOriginalSketches({});
+    setTextPrompt(item.prompt);
+    setRefineTarget(null);
+    setIsGenerating(false);
+    setError(null);
+    setWarning(item.message);
+    setGeneratedGeometries(item.results);
+    setVariationSlots([]);
+    setSelectedGeometryIndex(0);
+    setShowColors(false);
+    setIsEditing(false);
+    setWorkflowStep('results');
+    setIsBatchOpen(false);
+  };
+
+  // --- RESUME A JOB LEFT RUNNING BY A PREVIOUS PAGE LOAD ---
+  useEffect(() => {
+    if (!currentUser || hasResumedRef.current) return;
+    hasResumedRef.current = true;
+
+    const saved = loadActiveJob();
+    if (!saved) return;
+    const backend = getGenerationBackend();
+    if (saved.backendName !== backend.name) {
+      clearActiveJob();
+      return;
+    }
+
+    setTextPrompt(saved.prompt);
+    setPromptOptions(saved.promptOptions ?? DEFAULT_PROMPT_OPTIONS);
+    setNumberOfVariations(saved.variations);
+    // Jobs saved before model selection existed have no model recorded
+    const model = saved.model in MODEL_CAPABILITIES ? saved.model : DEFAULT_MODEL_ID;
+    setModelId(model);
+    setSketchPreview(saved.sketchDataUrl);
+    if (saved.sketchDataUrl) {
+      dataUrlToFile(saved.sketchDataUrl, saved.sketchName)
+        .then(setSketchFile)
+        .catch((e) => console.warn("Could not restore the sketch of the resumed job:", e));
+    }
+    for (const view of EXTRA_SKETCH_VIEWS) {
+      const savedView = saved.extraViews?.[view];
+      if (!savedView) continue;
+      dataUrlToFile(savedView.dataUrl, savedView.name)
+        .then((file) => setExtraViews((views) => ({ ...views, [view]: { file, preview: savedView.dataUrl } })))
+        .catch((e) => console.warn(`Could not restore the ${view} view of the resumed job:`, e));
+    }
+
+    const { jobId, ...draft } = { ...saved, model };
+    trackGeneration(backend, draft, (options) => {
+      options.onSubmitted?.(jobId);
+      return followGenerationJob(backend, jobId, options);
+    });
+  }, [currentUser]);
+
+  // Switching to a model with fewer variations brings the slider down with it
+  const handleModelChange = (model: ModelId) => {
+    setModelId(model);
+    setNumberOfVariations((count) => Math.min(count, MODEL_CAPABILITIES[model].maxVariations));
+  };
+
+  const handleSavePreset = (name: string) => {
+    if (!currentUser) return;
+    const presets = upsertPromptPreset(promptPresets, { name, prompt: textPrompt, options: promptOptions });
+    setPromptPresets(presets);
+    savePromptPresets(currentUser.uid, presets);
+  };
+
+  const handleDeletePreset = (name: string) => {
+    if (!currentUser) return;
+    const presets = promptPresets.filter((preset) => preset.name !== name);
+    setPromptPresets(presets);
+    savePromptPresets(currentUser.uid, presets);
+  };
+
+  const handleApplyPreset = (preset: PromptPreset) => {
+    setTextPrompt(preset.prompt);
+    setPromptOptions({ ...DEFAULT_PROMPT_OPTIONS, ...preset.options });
+  };
+
+  // Sets up the next run to reproduce a recorded variation: same prompt, model and count, its seed locked in its slot
+  const handleReuseParams = (params: GenerationParams) => {
+    setTextPrompt(params.prompt);
+    setPromptOptions(params.options);
+    setModelId(params.model);
+    setNumberOfVariations(Math.min(params.variations, MODEL_CAPABILITIES[params.model].maxVariations));
+    setLockedSeeds((seeds) => {
+      const next = Array.from({ length: Math.max(seeds.length, params.index + 1) }, (_, i) => seeds[i] ?? null);
+      next[params.index] = params.seed;
+      return next;
+    });
+  };
+
+  // Goes back to the controls with the selected variation kept as the starting point of the next round
+  const handleRefine = () => {
+    if (selectedGeometryIndex === null || !generatedGeometries[selectedGeometryIndex]) return;
+    const geometry = generatedGeometries[selectedGeometryIndex];
+    // Variations still streaming in would otherwise land on top of the refinement
+    handleCancelGeneration();
+    setRefineTarget({ geometry, index: geometry.meta?.params?.index ?? selectedGeometryIndex });
+    setIsEditing(false);
+    setWorkflowStep('generating');
+  };
+
+  // Opens the canvas over the current front sketch so it can be touched up
+  const handleEditSketch = () => {
+    setIsEditingSketch(true);
+    setDrawingView('front');
+  };
+
   // --- EXPORT FUNCTIONS ---
-  const saveFile = (blob: Blob, filename: string) => {
-    const link = document.createElement('a');
-    link.style.display = 'none';
-    document.body.appendChild(link);
-    link.href = URL.createObjectURL(blob);
-    link.download = filename;
-    link.click();
-    URL.revokeObjectURL(link.href);
-    document.body.removeChild(link);
+  const handleExportSettingsChange = (settings: ExportSettings) => {
+    setExportSettings(settings);
+    saveExportSettings(settings);
   };
-  
+
   const getSelectedGeo = () => {
     if (selectedGeometryIndex === null || !generatedGeometries[selectedGeometryIndex]) {
         return null;
@@ -214,59 +758,125 @@ const Workspace: React.FC = () => {
   const handleExportOBJ = () => {
     const geoData = getSelectedGeo();
     if (!geoData) return;
-    const { vertices, faces } = geoData;
-    
-    let output = '# Generated by Sketch-to-3D Mesh AI\n';
-    for (let i = 0; i < vertices.length; i += 3) {
-        output += `v ${vertices[i].toFixed(6)} ${vertices[i+1].toFixed(6)} ${vertices[i+2].toFixed(6)}\n`;
-    }
-    output += `g object_1\ns 1\n`;
-    for (let i = 0; i < faces.length; i += 3) {
-        const i1 = faces[i] + 1;
-        const i2 = faces[i + 1] + 1;
-        const i3 = faces[i + 2] + 1;
-        output += `f ${i1} ${i2} ${i3}\n`;
+    const name = `model_${(selectedGeometryIndex ?? 0) + 1}`;
+    try {
+      saveFile(exportOBJ(geoData, name, exportSettings), `${name}.zip`);
+    } catch (e) {
+      console.error(e);
+      setError(`Export Error: ${e instanceof Error ? e.message : String(e)}`);
     }
-    saveFile(new Blob([output], { type: 'text/plain' }), `model_${(selectedGeometryIndex ?? 0) + 1}.obj`);
   };
   
   const handleExportSTL = () => {
     const geoData = getSelectedGeo();
     if (!geoData) return;
-    const { vertices, faces } = geoData;
-
-    let output = 'solid model\n';
-    for (let i = 0; i < faces.length; i += 3) {
-        const v1Idx = faces[i] * 3;
-        const v2Idx = faces[i + 1] * 3;
-        const v3Idx = faces[i + 2] * 3;
-
-        const v1 = new THREE.Vector3(vertices[v1Idx], vertices[v1Idx + 1], vertices[v1Idx + 2]);
-        const v2 = new THREE.Vector3(vertices[v2Idx], vertices[v2Idx + 1], vertices[v2Idx + 2]);
-        const v3 = new THREE.Vector3(vertices[v3Idx], vertices[v3Idx + 1], vertices[v3Idx + 2]);
-
-        const normal = new THREE.Vector3().crossVectors(
-            v2.clone().sub(v1),
-            v3.clone().sub(v1)
-        ).normalize();
-
-        output += `  facet normal ${normal.x.toFixed(6)} ${normal.y.toFixed(6)} ${normal.z.toFixed(6)}\n`;
-        output += '    outer loop\n';
-        output += `      vertex ${v1.x.toFixed(6)} ${v1.y.toFixed(6)} ${v1.z.toFixed(6)}\n`;
-        output += `      vertex ${v2.x.toFixed(6)} ${v2.y.toFixed(6)} ${v2.z.toFixed(6)}\n`;
-        output += `      vertex ${v3.x.toFixed(6)} ${v3.y.toFixed(6)} ${v3.z.toFixed(6)}\n`;
-        output += '    endloop\n';
-        output += '  endfacet\n';
+    try {
+      saveFile(exportSTL(geoData, stlFormat, exportSettings), `model_${(selectedGeometryIndex ?? 0) + 1}.stl`);
+    } catch (e) {
+      console.error(e);
+      setError(`Export Error: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  };
+
+  const handleExportPLY = () => {
+    const geoData = getSelectedGeo();
+    if (!geoData) return;
+    try {
+      saveFile(exportPLY(geoData, plyFormat, exportSettings), `model_${(selectedGeometryIndex ?? 0) + 1}.ply`);
+    } catch (e) {
+      console.error(e);
+      setError(`Export Error: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  };
+
+  const handleExport3MF = () => {
+    const geoData = getSelectedGeo();
+    if (!geoData) return;
+    const name = `model_${(selectedGeometryIndex ?? 0) + 1}`;
+    try {
+      saveFile(export3MF(geoData, name, exportSettings), `${name}.3mf`);
+    } catch (e) {
+      console.error(e);
+      setError(`Export Error: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  };
+
+  const handleExportGLTF = async () => {
+    const geoData = getSelectedGeo();
+    if (!geoData) return;
+    try {
+      const blob = await exportGLTF(geoData, gltfFormat, showColors, exportSettings);
+      saveFile(blob, `model_${(selectedGeometryIndex ?? 0) + 1}.${gltfFormat}`);
+    } catch (e) {
+      console.error(e);
+      setError(`Export Error: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  };
+
+  const handleExportUSDZ = async () => {
+    const geoData = getSelectedGeo();
+    if (!geoData) return;
+    try {
+      saveFile(await exportUSDZ(geoData, showColors, exportSettings), `model_${(selectedGeometryIndex ?? 0) + 1}.usdz`);
+    } catch (e) {
+      console.error(e);
+      setError(`Export Error: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  };
+
+  const handleExportAll = async () => {
+    if (generatedGeometries.length === 0) return;
+    setIsExportingAll(true);
+    try {
+      const blob = await exportAllVariations(generatedGeometries, {
+        formats: exportAllFormats,
+        stlFormat,
+        plyFormat,
+        gltfFormat,
+        showColors,
+        settings: exportSettings,
+        prompt: textPrompt || DEFAULT_PROMPT,
+        sketches: { front: sketchFile ?? undefined, ...mapExtraViews(extraViews, (image) => image.file) },
+        originalSketches,
+      });
+      saveFile(blob, 'models.zip');
+      setIsExportAllOpen(false);
+    } catch (e) {
+      console.error(e);
+      setError(`Export Error: ${e instanceof Error ? e.message : String(e)}`);
+    } finally {
+      setIsExportingAll(false);
+    }
+  };
+
+  // WebXR isn't available on iPhones; AR Quick Look places the USDZ file instead
+  const handleOpenInAR = async () => {
+    const geoData = getSelectedGeo();
+    if (!geoData) return;
+    try {
+      openInQuickLook(await exportUSDZ(geoData, showColors, exportSettings));
+    } catch (e) {
+      console.error(e);
+      setError(`AR Error: ${e instanceof Error ? e.message : String(e)}`);
     }
-    output += 'endsolid model\n';
-    saveFile(new Blob([output], { type: 'text/plain' }), `model_${(selectedGeometryIndex ?? 0) + 1}.stl`);
   };
   
-  const handleToggleDrawing = () => setIsDrawing(prev => !prev);
+  const handleToggleDrawing = () => setDrawingView(prev => (prev ? null : 'front'));
   
   const handleDrawingComplete = (file: File) => {
-    handleFileChange(file);
-    setIsDrawing(false);
+    if (isEditingSketch) replaceViewImage(drawingView ?? 'front', file);
+    else if (!drawingView || drawingView === 'front') handleFileChange(file);
+    else {
+      handleExtraViewChange(drawingView, file);
+      recordOriginalSketch(drawingView, file);
+    }
+    setDrawingView(null);
+    setIsEditingSketch(false);
+  };
+
+  const handleDrawingCancel = () => {
+    setDrawingView(null);
+    setIsEditingSketch(false);
   };
 
   const selectedGeometry = selectedGeometryIndex !== null ? generatedGeometries[selectedGeometryIndex] : null;
@@ -290,12 +900,100 @@ const Workspace: React.FC = () => {
     <div className="flex flex-col h-screen font-sans bg-base-100 text-content antialiased">
       <Header currentUser={currentUser} onSignOut={handleSignOut} />
       
-      {isDrawing && <DrawingCanvas onComplete={handleDrawingComplete} onCancel={handleToggleDrawing} />}
+      {drawingView && (
+        <DrawingCanvas
+          key={drawingView}
+          view={drawingView}
+          baseImage={isEditingSketch ? sketchPreview : null}
+          onComplete={handleDrawingComplete}
+          onCancel={handleDrawingCancel}
+        />
+      )}
+
+      {adjustTarget && (
+        <SketchAdjustPanel
+          key={`${adjustTarget.view}:${adjustTarget.file.name}:${adjustTarget.file.lastModified}`}
+          file={adjustTarget.file}
+          view={adjustTarget.view}
+          onApply={handleAdjustDone}
+          onSkip={() => handleAdjustDone(adjustTarget.file)}
+        />
+      )}
+
+      {prepTarget && (
+        <SketchPrepPanel
+          key={`${prepTarget.view}:${prepTarget.file.name}:${prepTarget.file.lastModified}`}
+          file={prepTarget.file}
+          view={prepTarget.view}
+          onApply={handlePrepApply}
+          onSkip={() => setPrepTarget(null)}
+        />
+      )}
+
+      {isBatchOpen && (
+        <BatchQueuePanel
+          items={batchItems}
+          isRunning={isBatchRunning}
+          concurrency={batchConcurrency}
+          maxVariations={MODEL_CAPABILITIES[modelId].maxVariations}
+          onConcurrencyChange={setBatchConcurrency}
+          onAddFiles={handleBatchFiles}
+          onItemChange={handleBatchItemChange}
+          onRemoveItem={handleBatchRemove}
+          onStart={handleBatchStart}
+          onCancel={() => batchControllerRef.current?.abort()}
+          onViewItem={handleBatchView}
+          onClose={() => setIsBatchOpen(false)}
+        />
+      )}
+
+      {isExportAllOpen && (
+        <ExportAllPanel
+          variationCount={generatedGeometries.length}
+          formats={exportAllFormats}
+          onFormatsChange={setExportAllFormats}
+          stlFormat={stlFormat}
+          plyFormat={plyFormat}
+          gltfFormat={gltfFormat}
+          exportSettings={exportSettings}
+          onEditSettings={() => setIsExportSettingsOpen(true)}
+          isExporting={isExportingAll}
+          onExport={handleExportAll}
+          onClose={() => setIsExportAllOpen(false)}
+        />
+      )}
+
+      {isExportSettingsOpen && (
+        <ExportSettingsPanel
+          settings={exportSettings}
+          onChange={handleExportSettingsChange}
+          geometry={getSelectedGeo()}
+          onClose={() => setIsExportSettingsOpen(false)}
+        />
+      )}
+
+      {isContourModeling && (
+        <ContourModelingPanel
+          sketchPreview={sketchPreview}
+          isBuilding={isBuildingContours}
+          onBuild={handleContourModeling}
+          onCancel={() => setIsContourModeling(false)}
+        />
+      )}
       
       <main className="flex-1 relative">
+        {batchItems.length > 0 && !isBatchOpen && (
+          <button
+            onClick={() => setIsBatchOpen(true)}
+            className={`absolute top-4 right-4 z-30 bg-base-200/80 backdrop-blur-lg border border-base-300/50 rounded-full py-2 px-4 text-sm font-bold transition-colors hover:border-brand-primary ${isBatchRunning ? 'text-brand-primary animate-pulse' : 'text-content'}`}
+          >
+            Batch {batchItems.filter((item) => item.status === 'succeeded').length}/{batchItems.length}
+          </button>
+        )}
         <Viewer 
           geometry={selectedGeometry} 
-          isGenerating={isGenerating}
+          isGenerating={isGenerating && !selectedGeometry}
+          pipelineStatus={pipelineStatus}
           modelRef={modelRef}
           shadingMode={shadingMode}
           lightingPreset={lightingPreset}
@@ -306,15 +1004,37 @@ const Workspace: React.FC = () => {
         
         {workflowStep !== 'results' && (
           <ControlBar
-            onFileChange={handleFileChange}
+            onFileChange={handleSketchUpload}
+            onBatchFiles={handleBatchFiles}
             onGenerate={handleGeneration}
+            onGenerateOffline={handleOfflineGeneration}
+            onOpenContourModeling={handleOpenContourModeling}
             onToggleDrawing={handleToggleDrawing}
+            extraViewPreviews={mapExtraViews(extraViews, (image) => image.preview)}
+            onExtraViewChange={handleExtraViewUpload}
+            onDrawView={setDrawingView}
+            refineTarget={refineTarget}
+            onCancelRefine={() => setRefineTarget(null)}
+            onEditSketch={handleEditSketch}
             isGenerating={isGenerating}
+            isInflating={isInflating}
+            pipelineStatus={pipelineStatus}
             sketchPreview={sketchPreview}
             onStartOver={handleStartOver}
+            onCancelGeneration={handleCancelGeneration}
             numberOfVariations={numberOfVariations}
             onNumberOfVariationsChange={setNumberOfVariations}
+            lockedSeeds={lockedSeeds}
+            onLockedSeedsChange={setLockedSeeds}
+            modelId={modelId}
+            onModelChange={handleModelChange}
             textPrompt={textPrompt}
+            promptOptions={promptOptions}
+            onPromptOptionsChange={setPromptOptions}
+            promptPresets={promptPresets}
+            onSavePreset={handleSavePreset}
+            onDeletePreset={handleDeletePreset}
+            onApplyPreset={handleApplyPreset}
             onTextPromptChange={setTextPrompt}
             workflowStep={workflowStep}
           />
@@ -327,9 +1047,28 @@ const Workspace: React.FC = () => {
                 onResetVariations={handleResetVariations}
                 onExportOBJ={handleExportOBJ}
                 onExportSTL={handleExportSTL}
+                stlFormat={stlFormat}
+                onStlFormatChange={setStlFormat}
+                onExportPLY={handleExportPLY}
+                plyFormat={plyFormat}
+                onPlyFormatChange={setPlyFormat}
+                onExport3MF={handleExport3MF}
+                onExportGLTF={handleExportGLTF}
+                gltfFormat={gltfFormat}
+                onGltfFormatChange={setGltfFormat}
+                onExportUSDZ={handleExportUSDZ}
+                onOpenInAR={handleOpenInAR}
+                onExportAll={() => setIsExportAllOpen(true)}
+                exportSettings={exportSettings}
+                onOpenExportSettings={() => setIsExportSettingsOpen(true)}
                 generatedGeometries={generatedGeometries}
                 selectedVariationIndex={selectedGeometryIndex}
                 onSelectVariation={setSelectedGeometryIndex}
+                variationSlots={variationSlots}
+                isGenerating={isGenerating}
+                onCancelGeneration={handleCancelGeneration}
+                onReuseParams={handleReuseParams}
+                onRefine={handleRefine}
                 shadingMode={shadingMode}
                 onShadingModeChange={setShadingMode}
                 lightingPreset={lightingPreset}
@@ -345,7 +1084,12 @@ const Workspace: React.FC = () => {
           </>
         )}
       </main>
-      <Toast message={error} onDismiss={() => setError(null)} />
+      <Toast
+        message={error || warning}
+        variant={error ? 'error' : 'warning'}
+        duration={error ? 5000 : 10000}
+        onDismiss={() => (error ? setError(null) : setWarning(null))}
+      />
     </div>
   );
 };
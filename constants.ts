@@ -0,0 +1,84 @@
+import type { DetailLevel, ExportSettings, ExportSizing, ExtraSketchView, LengthUnit, ModelCapabilities, ModelId, PromptOptions, SketchView, StylePreset, VariationSource } from './types';
+
+// What each backend model can do; the UI limits its controls to these and the backend receives them too
+export const MODEL_CAPABILITIES: Record<ModelId, ModelCapabilities> = {
+  'gemini-2.5-pro': {
+    label: 'Gemini 2.5 Pro',
+    description: 'Most detailed meshes, slower',
+    maxVariations: 3,
+    supportsColor: true,
+  },
+  'gemini-2.5-flash': {
+    label: 'Gemini 2.5 Flash',
+    description: 'Fast, uncoloured drafts with more variations',
+    maxVariations: 5,
+    supportsColor: false,
+  },
+};
+
+export const MODEL_IDS = Object.keys(MODEL_CAPABILITIES) as ModelId[];
+
+export const DEFAULT_MODEL_ID: ModelId = 'gemini-2.5-flash';
+
+// Sent when the prompt box is left empty
+export const DEFAULT_PROMPT = 'a 3d model';
+
+export const STYLE_PRESETS: Record<StylePreset, { label: string; description: string }> = {
+  'none': { label: 'No style', description: 'Let the model decide from the sketch and prompt' },
+  'low-poly': { label: 'Low-poly', description: 'Few flat-shaded faces with crisp edges' },
+  'organic': { label: 'Organic', description: 'Smooth, flowing surfaces' },
+  'hard-surface': { label: 'Hard-surface', description: 'Mechanical parts with sharp bevels and panels' },
+  'character': { label: 'Character', description: 'Figures and creatures with readable anatomy' },
+};
+
+export const DETAIL_LEVEL_LABELS: Record<DetailLevel, string> = {
+  low: 'Low detail',
+  medium: 'Medium detail',
+  high: 'High detail',
+};
+
+export const DEFAULT_PROMPT_OPTIONS: PromptOptions = {
+  style: 'none',
+  negativePrompt: '',
+  detail: 'medium',
+};
+
+// Shown for variations that didn't come from a backend model
+export const VARIATION_SOURCE_LABELS: Record<VariationSource, string> = {
+  'backend': 'Generation server',
+  'offline-inflation': 'Offline inflation',
+  'contour-extrude': 'Contour extrude',
+  'contour-revolve': 'Contour revolve',
+};
+
+export const SKETCH_VIEW_LABELS: Record<SketchView, string> = {
+  front: 'Front',
+  side: 'Side',
+  top: 'Top',
+};
+
+// Optional views that can accompany the front sketch, in display order
+export const EXTRA_SKETCH_VIEWS: ExtraSketchView[] = ['side', 'top'];
+
+export const LENGTH_UNIT_LABELS: Record<LengthUnit, string> = {
+  mm: 'Millimetres',
+  cm: 'Centimetres',
+  in: 'Inches',
+};
+
+export const EXPORT_SIZING_LABELS: Record<ExportSizing, string> = {
+  'original': 'Generated size',
+  'height': 'Target height',
+  'width': 'Target width',
+  'print-bed': 'Fit to print bed',
+};
+
+// Exported at the generated size until scaling is asked for, Z-up as slicers expect; the
+// target is what a height or width fit starts at, the bed a common 220 × 220 × 250 mm printer
+export const DEFAULT_EXPORT_SETTINGS: ExportSettings = {
+  unit: 'mm',
+  sizing: 'original',
+  targetSize: 100,
+  printBed: [220, 220, 250],
+  upAxis: 'z',
+};
@@ -0,0 +1,108 @@
+import type { BatchItem, GenerationBackend, ModelId, PromptOptions } from '../types';
+import { DEFAULT_PROMPT, MODEL_CAPABILITIES } from '../constants';
+import { isAbortError, runGenerationJob } from './generationClient';
+import { formatValidationReports, validateGeometries } from './meshValidation';
+import { createIdlePipelineStatus } from './pipeline';
+import { hashSketchFiles, resolveSeeds, withGenerationMeta } from './generationParams';
+
+// How many batch jobs may run on the backend at once
+export const BATCH_CONCURRENCY_OPTIONS = [1, 2, 3];
+
+export const createBatchItem = (file: File, variations: number): BatchItem => ({
+  id: `${Date.now()}-${Math.random().toString(36).slice(2, 10)}`,
+  file,
+  preview: URL.createObjectURL(file),
+  prompt: '',
+  variations,
+  status: 'pending',
+  pipelineStatus: null,
+  results: [],
+  message: null,
+});
+
+// Items that still need a (new) run; succeeded ones keep their results
+export const isBatchItemRunnable = (item: BatchItem) => item.status !== 'succeeded' && item.status !== 'running';
+
+export interface BatchRunOptions {
+  model: ModelId;
+  // Style, negative prompt and detail shared by every item
+  promptOptions: PromptOptions;
+  concurrency: number;
+  signal: AbortSignal;
+  onItemUpdate: (id: string, changes: Partial<BatchItem>) => void;
+}
+
+/**
+ * Generates the runnable items, at most `concurrency` at a time, in list order. One failing
+ * item doesn't stop the rest. Aborting the signal cancels the jobs in flight on the backend
+ * and leaves the items not yet started pending. Batch jobs are not persisted across reloads.
+ */
+export const runBatch = async (
+  backend: GenerationBackend,
+  items: BatchItem[],
+  { model, promptOptions, concurrency, signal, onItemUpdate }: BatchRunOptions,
+): Promise<void> => {
+  const queue = items.filter(isBatchItemRunnable);
+  const capabilities = MODEL_CAPABILITIES[model];
+
+  const runItem = async (item: BatchItem) => {
+    let jobId: string | null = null;
+    onItemUpdate(item.id, { status: 'running', pipelineStatus: createIdlePipelineStatus(), results: [], message: null });
+    try {
+      const variations = Math.min(item.variations, capabilities.maxVariations);
+      const request = {
+        sketch: item.file,
+        extraViews: {},
+        prompt: item.prompt || DEFAULT_PROMPT,
+        options: promptOptions,
+        variations,
+        seeds: resolveSeeds(variations, []),
+        model,
+        capabilities,
+      };
+      const sketchHash = await hashSketchFiles([item.file]);
+      const geometries = await runGenerationJob(backend, request, {
+        signal,
+        onSubmitted: (id) => {
+          jobId = id;
+        },
+        onProgress: (status) => {
+          if (!signal.aborted) onItemUpdate(item.id, { pipelineStatus: status });
+        },
+        onRetry: (e, attempt) => console.warn(`Batch item "${item.file.name}" failed, retrying (attempt ${attempt}):`, e),
+      });
+
+      const run = { prompt: request.prompt, options: promptOptions, model, variations, seeds: request.seeds, sketchHash };
+      const { geometries: validGeometries, reports } = validateGeometries(withGenerationMeta(geometries, model, run));
+      if (validGeometries.length === 0) {
+        throw new Error(`All generated variations were invalid.\n${formatValidationReports(reports)}`);
+      }
+      onItemUpdate(item.id, {
+        status: 'succeeded',
+        pipelineStatus: null,
+        results: validGeometries,
+        message: reports.length > 0 ? formatValidationReports(reports) : null,
+      });
+    } catch (e) {
+      if (signal.aborted || isAbortError(e)) {
+        if (jobId) {
+          const id = jobId;
+          backend.cancelJob(id).catch((error) => console.warn(`Could not cancel job ${id}:`, error));
+        }
+        onItemUpdate(item.id, { status: 'cancelled', pipelineStatus: null });
+        return;
+      }
+      console.error(e);
+      onItemUpdate(item.id, { status: 'failed', pipelineStatus: null, message: e instanceof Error ? e.message : String(e) });
+    }
+  };
+
+  // Each worker takes the next queued item until the queue runs dry or the batch is cancelled
+  let next = 0;
+  const worker = async () => {
+    while (next < queue.length && !signal.aborted) {
+      await runItem(queue[next++]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(Math.max(1, concurrency), queue.length) }, worker));
+};
@@ -0,0 +1,55 @@
+import * as THREE from 'three';
+import { describe, expect, it } from 'vitest';
+import type { SketchOutline } from './contourModeling';
+import { extrudeContours, revolveContours } from './contourModeling';
+import { countEdgeFaults } from './meshValidation';
+
+const loop = (count: number, radius: number, clockwise = false) =>
+  Array.from({ length: count }, (_, i) => {
+    const angle = ((clockwise ? -i : i) / count) * Math.PI * 2;
+    return new THREE.Vector2(Math.cos(angle) * radius, Math.sin(angle) * radius);
+  });
+
+const square: SketchOutline = {
+  outer: [new THREE.Vector2(-1, -1), new THREE.Vector2(1, -1), new THREE.Vector2(1, 1), new THREE.Vector2(-1, 1)],
+  holes: [],
+};
+const ring: SketchOutline = { outer: loop(40, 1), holes: [loop(40, 0.5, true)] };
+// An off-centre profile, so a revolve around the middle of the shape crosses the axis
+const blob: SketchOutline = { outer: loop(24, 1).map(({ x, y }) => new THREE.Vector2(x * 0.8 + 0.2, y)), holes: [] };
+
+const closed = { open: 0, nonManifold: 0 };
+
+// On a consistently wound surface every edge is walked once in each direction
+const isConsistentlyWound = (faces: ArrayLike<number>) => {
+  const directed = new Set<string>();
+  for (let f = 0; f + 2 < faces.length; f += 3) {
+    for (let corner = 0; corner < 3; corner++) {
+      const key = `${faces[f + corner]}>${faces[f + ((corner + 1) % 3)]}`;
+      if (directed.has(key)) return false;
+      directed.add(key);
+    }
+  }
+  return true;
+};
+
+describe('contour modelling', () => {
+  it('extrudes a square into a closed solid', () => {
+    expect(countEdgeFaults(extrudeContours([square], { depth: 0.5 }).faces)).toEqual(closed);
+  });
+
+  it('extrudes an outline with a hole into a closed solid', () => {
+    expect(countEdgeFaults(extrudeContours([ring], { depth: 0.5 }).faces)).toEqual(closed);
+  });
+
+  it.each(['vertical', 'horizontal'] as const)('revolves a full turn around a %s axis into a closed solid', (axis) => {
+    const geometry = revolveContours([blob], { axis, axisPosition: 50, angle: 360, segments: 32 });
+    expect(countEdgeFaults(geometry.faces)).toEqual(closed);
+  });
+
+  it('caps the ends of a partial revolve', () => {
+    const geometry = revolveContours([blob], { axis: 'vertical', axisPosition: 30, angle: 120, segments: 16 });
+    expect(countEdgeFaults(geometry.faces)).toEqual(closed);
+    expect(isConsistentlyWound(geometry.faces)).toBe(true);
+  });
+});
@@ -0,0 +1,305 @@
+import * as THREE from 'three';
+import type { ContourModelingRequest, ExtrudeParams, GeneratedGeometry, RevolveParams } from '../types';
+import { toGeneratedGeometry } from './meshUtils';
+import { extractEvenOddMask, loadRasterSketch, Silhouette, SKETCH_MODEL_SIZE } from './sketchRaster';
+
+// Longest side of the grid contours are traced on
+const CONTOUR_RESOLUTION = 256;
+
+// Maximum distance (in pixels) a simplified outline may stray from the traced one
+const SIMPLIFY_TOLERANCE = 0.8;
+
+// Loops enclosing less than this many square pixels are specks, not shapes
+const MIN_LOOP_AREA = 8;
+
+// A closed outline with the holes cut into it, in model units with Y up
+export interface SketchOutline {
+  outer: THREE.Vector2[];
+  holes: THREE.Vector2[][];
+}
+
+type Point = [number, number];
+
+// Edge midpoints of a marching-squares cell, in doubled pixel coordinates
+type CellEdge = 'T' | 'R' | 'B' | 'L';
+
+/**
+ * Segments per cell case, indexed by the corner bits (top-left 8, top-right 4, bottom-right 2,
+ * bottom-left 1). Each segment keeps the filled side on its right in image coordinates, so
+ * outer loops and holes come out with opposite orientations.
+ */
+const CELL_SEGMENTS: [CellEdge, CellEdge][][] = [
+  [],
+  [['L', 'B']],
+  [['B', 'R']],
+  [['L', 'R']],
+  [['R', 'T']],
+  [['L', 'B'], ['R', 'T']],
+  [['B', 'T']],
+  [['L', 'T']],
+  [['T', 'L']],
+  [['T', 'B']],
+  [['T', 'L'], ['B', 'R']],
+  [['T', 'R']],
+  [['R', 'L']],
+  [['R', 'B']],
+  [['B', 'L']],
+  [],
+];
+
+const edgePoint = (edge: CellEdge, x: number, y: number): Point => {
+  switch (edge) {
+    case 'T': return [2 * x + 1, 2 * y];
+    case 'R': return [2 * x + 2, 2 * y + 1];
+    case 'B': return [2 * x + 1, 2 * y + 2];
+    case 'L': return [2 * x, 2 * y + 1];
+  }
+};
+
+/**
+ * Traces every boundary of the mask with marching squares over pixel centres. The grid is
+ * padded by one empty pixel on each side so shapes touching the image border still close.
+ */
+const traceLoops = ({ width, height, mask }: Silhouette): Point[][] => {
+  const filled = (x: number, y: number) => x >= 0 && y >= 0 && x < width && y < height && mask[y * width + x] === 1;
+  // Doubled coordinates range from -2 to 2 * width, shifted to be non-negative for the key
+  const stride = 2 * width + 4;
+  const keyOf = ([px, py]: Point) => (py + 2) * stride + (px + 2);
+
+  const next = new Map<number, Point>();
+  const starts: Point[] = [];
+  for (let y = -1; y < height; y++) {
+    for (let x = -1; x < width; x++) {
+      const cell = (filled(x, y) ? 8 : 0) | (filled(x + 1, y) ? 4 : 0) | (filled(x + 1, y + 1) ? 2 : 0) | (filled(x, y + 1) ? 1 : 0);
+      for (const [from, to] of CELL_SEGMENTS[cell]) {
+        const start = edgePoint(from, x, y);
+        next.set(keyOf(start), edgePoint(to, x, y));
+        starts.push(start);
+      }
+    }
+  }
+
+  const loops: Point[][] = [];
+  const used = new Set<number>();
+  for (const start of starts) {
+    if (used.has(keyOf(start))) continue;
+    const loop: Point[] = [];
+    let point: Point | undefined = start;
+    while (point && !used.has(keyOf(point))) {
+      used.add(keyOf(point));
+      loop.push([point[0] / 2, point[1] / 2]);
+      point = next.get(keyOf(point));
+    }
+    loops.push(loop);
+  }
+  return loops;
+};
+
+const signedArea = (loop: Point[]): number => {
+  let area = 0;
+  for (let i = 0; i < loop.length; i++) {
+    const [x0, y0] = loop[i];
+    const [x1, y1] = loop[(i + 1) % loop.length];
+    area += x0 * y1 - x1 * y0;
+  }
+  return area / 2;
+};
+
+const distanceToSegment = ([px, py]: Point, [ax, ay]: Point, [bx, by]: Point): number => {
+  const dx = bx - ax, dy = by - ay;
+  const lengthSq = dx * dx + dy * dy;
+  const t = lengthSq === 0 ? 0 : Math.max(0, Math.min(1, ((px - ax) * dx + (py - ay) * dy) / lengthSq));
+  return Math.hypot(px - (ax + t * dx), py - (ay + t * dy));
+};
+
+// Douglas-Peucker on an open chain; keeps both end points
+const simplifyChain = (chain: Point[], tolerance: number): Point[] => {
+  if (chain.length < 3) return chain;
+  let farthest = 0, farthestIndex = 0;
+  for (let i = 1; i < chain.length - 1; i++) {
+    const distance = distanceToSegment(chain[i], chain[0], chain[chain.length - 1]);
+    if (distance > farthest) {
+      farthest = distance;
+      farthestIndex = i;
+    }
+  }
+  if (farthest <= tolerance) return [chain[0], chain[chain.length - 1]];
+  const left = simplifyChain(chain.slice(0, farthestIndex + 1), tolerance);
+  const right = simplifyChain(chain.slice(farthestIndex), tolerance);
+  return [...left.slice(0, -1), ...right];
+};
+
+// Splits the loop at the point farthest from its first point and simplifies both halves
+const simplifyLoop = (loop: Point[], tolerance: number): Point[] => {
+  let split = 0, farthest = 0;
+  loop.forEach(([x, y], i) => {
+    const distance = Math.hypot(x - loop[0][0], y - loop[0][1]);
+    if (distance > farthest) {
+      farthest = distance;
+      split = i;
+    }
+  });
+  const first = simplifyChain(loop.slice(0, split + 1), tolerance);
+  const second = simplifyChain([...loop.slice(split), loop[0]], tolerance);
+  return [...first.slice(0, -1), ...second.slice(0, -1)];
+};
+
+const containsPoint = (loop: Point[], [px, py]: Point): boolean => {
+  let inside = false;
+  for (let i = 0, j = loop.length - 1; i < loop.length; j = i++) {
+    const [xi, yi] = loop[i], [xj, yj] = loop[j];
+    if ((yi > py) !== (yj > py) && px < ((xj - xi) * (py - yi)) / (yj - yi) + xi) inside = !inside;
+  }
+  return inside;
+};
+
+/**
+ * Vectorises the sketch: nested closed strokes are filled with the even-odd rule, traced
+ * into simplified polygons and grouped into outlines with their holes. Coordinates are
+ * centred and scaled so the sketch's longer side is SKETCH_MODEL_SIZE, with Y pointing up.
+ */
+export const traceSketchContours = async (file: Blob): Promise<SketchOutline[]> => {
+  const sketch = await loadRasterSketch(file, CONTOUR_RESOLUTION);
+  const silhouette = extractEvenOddMask(sketch);
+  const loops = traceLoops(silhouette)
+    .map((loop) => simplifyLoop(loop, SIMPLIFY_TOLERANCE))
+    .filter((loop) => loop.length >= 3 && Math.abs(signedArea(loop)) >= MIN_LOOP_AREA);
+  if (loops.length === 0) {
+    throw new Error("No closed contours found in the sketch. Draw a closed outline in a dark colour.");
+  }
+
+  // Outer boundaries share the orientation of the biggest loop, which is always an outer one
+  const areas = loops.map(signedArea);
+  const largest = areas.reduce((best, area, i) => (Math.abs(area) > Math.abs(areas[best]) ? i : best), 0);
+  const outerSign = Math.sign(areas[largest]);
+  const outers = loops.filter((_, i) => Math.sign(areas[i]) === outerSign);
+  const holes = loops.filter((_, i) => Math.sign(areas[i]) !== outerSign);
+
+  const scale = SKETCH_MODEL_SIZE / Math.max(silhouette.width, silhouette.height);
+  const toModel = ([x, y]: Point) =>
+    new THREE.Vector2((x - silhouette.width / 2) * scale, (silhouette.height / 2 - y) * scale);
+
+  const outlines = outers.map((outer) => ({ outer, holes: [] as Point[][] }));
+  for (const hole of holes) {
+    // A hole belongs to the smallest outer loop around it
+    const owners = outlines.filter(({ outer }) => containsPoint(outer, hole[0]));
+    if (owners.length === 0) continue;
+    owners.sort((a, b) => Math.abs(signedArea(a.outer)) - Math.abs(signedArea(b.outer)));
+    owners[0].holes.push(hole);
+  }
+  return outlines.map(({ outer, holes }) => ({ outer: outer.map(toModel), holes: holes.map((hole) => hole.map(toModel)) }));
+};
+
+/**
+ * Extrudes every outline straight back by `depth`. The profile lies in the XZ plane (Z up,
+ * like backend meshes) and the solid is centred on it.
+ */
+export const extrudeContours = (outlines: SketchOutline[], { depth }: ExtrudeParams): GeneratedGeometry => {
+  const shapes = outlines.map(({ outer, holes }) => {
+    const shape = new THREE.Shape(outer);
+    shape.holes = holes.map((hole) => new THREE.Path(hole));
+    return shape;
+  });
+  const geometry = new THREE.ExtrudeGeometry(shapes, { depth, bevelEnabled: false });
+  geometry.rotateX(Math.PI / 2);
+  geometry.translate(0, depth / 2, 0);
+  const result = toGeneratedGeometry(geometry);
+  geometry.dispose();
+  return result;
+};
+
+// Sutherland-Hodgman against the half-plane x >= 0
+const clipToPositiveX = (polygon: THREE.Vector2[]): THREE.Vector2[] => {
+  const clipped: THREE.Vector2[] = [];
+  polygon.forEach((current, i) => {
+    const previous = polygon[(i + polygon.length - 1) % polygon.length];
+    const currentInside = current.x >= 0, previousInside = previous.x >= 0;
+    if (currentInside !== previousInside) {
+      const t = previous.x / (previous.x - current.x);
+      clipped.push(new THREE.Vector2(0, previous.y + t * (current.y - previous.y)));
+    }
+    if (currentInside) clipped.push(current);
+  });
+  return clipped;
+};
+
+/**
+ * Closes a partial lathe with the profile itself at both ends of the sweep, wound to face
+ * away from the solid. Positions only: toGeneratedGeometry welds the caps onto the lathe.
+ */
+const withRevolveCaps = (lathe: THREE.BufferGeometry, profile: THREE.Vector2[], phiStart: number, phiLength: number) => {
+  const position = lathe.getAttribute('position');
+  const positions = Array.from(position.array);
+  const indices = lathe.index ? Array.from(lathe.index.array) : Array.from({ length: position.count }, (_, i) => i);
+
+  // Lathe space puts a profile point (x, y) at (x sin φ, y, x cos φ)
+  const triangles = THREE.ShapeUtils.triangulateShape(profile, []);
+  const addCap = (phi: number, facingStart: boolean) => {
+    const first = positions.length / 3;
+    for (const { x, y } of profile) positions.push(x * Math.sin(phi), y, x * Math.cos(phi));
+    for (const [a, b, c] of triangles) {
+      // Counter-clockwise in the profile plane faces back along the sweep, out of the start
+      const ccw = THREE.ShapeUtils.area([profile[a], profile[b], profile[c]]) > 0;
+      indices.push(...(ccw === facingStart ? [a, b, c] : [a, c, b]).map((i) => first + i));
+    }
+  };
+  addCap(phiStart, true);
+  addCap(phiStart + phiLength, false);
+
+  const capped = new THREE.BufferGeometry();
+  capped.setAttribute('position', new THREE.Float32BufferAttribute(positions, 3));
+  capped.setIndex(indices);
+  lathe.dispose();
+  return capped;
+};
+
+/**
+ * Revolves the largest outline around a vertical or horizontal axis through the sketch.
+ * Only the part of the outline on one side of the axis (right of a vertical axis, above a
+ * horizontal one) forms the profile; holes are ignored since a lathe has a single profile.
+ */
+export const revolveContours = (outlines: SketchOutline[], params: RevolveParams): GeneratedGeometry => {
+  const outline = outlines.reduce((best, candidate) =>
+    Math.abs(THREE.ShapeUtils.area(candidate.outer)) > Math.abs(THREE.ShapeUtils.area(best.outer)) ? candidate : best);
+
+  const vertical = params.axis === 'vertical';
+  const box = new THREE.Box2().setFromPoints(outline.outer);
+  const axis = vertical
+    ? box.min.x + ((box.max.x - box.min.x) * params.axisPosition) / 100
+    : box.min.y + ((box.max.y - box.min.y) * params.axisPosition) / 100;
+
+  // Profile in lathe space: x is the distance from the axis, y runs along it
+  let profile = clipToPositiveX(outline.outer.map(({ x, y }) =>
+    vertical ? new THREE.Vector2(x - axis, y) : new THREE.Vector2(y - axis, x)));
+  if (profile.length < 3 || Math.abs(THREE.ShapeUtils.area(profile)) < 1e-6) {
+    throw new Error("The revolve axis doesn't leave any of the outline on its side. Move the axis into the shape.");
+  }
+  if (THREE.ShapeUtils.isClockWise(profile)) profile = profile.reverse();
+
+  // Start the sweep in the sketch plane so a partial revolve begins at the drawn profile
+  const phiStart = vertical ? Math.PI / 2 : -Math.PI / 2;
+  const phiLength = THREE.MathUtils.degToRad(Math.min(360, Math.max(1, params.angle)));
+  const lathe = new THREE.LatheGeometry([...profile, profile[0]], Math.max(3, Math.round(params.segments)), phiStart, phiLength);
+  const geometry = params.angle < 360 ? withRevolveCaps(lathe, profile, phiStart, phiLength) : lathe;
+  // The lathe spins around its Y axis; map that onto the sketch's vertical or horizontal axis
+  if (vertical) {
+    geometry.translate(axis, 0, 0);
+    geometry.rotateX(Math.PI / 2);
+  } else {
+    geometry.rotateZ(-Math.PI / 2);
+    geometry.translate(0, axis, 0);
+    geometry.rotateX(Math.PI / 2);
+  }
+  const result = toGeneratedGeometry(geometry);
+  geometry.dispose();
+  return result;
+};
+
+// Traces the sketch and builds the requested solid, tagged with the operation that made it
+export const buildContourModel = async (file: Blob, request: ContourModelingRequest): Promise<GeneratedGeometry> => {
+  const outlines = await traceSketchContours(file);
+  const geometry = request.operation === 'extrude'
+    ? extrudeContours(outlines, request.params)
+    : revolveContours(outlines, request.params);
+  return { ...geometry, meta: { source: request.operation === 'extrude' ? 'contour-extrude' : 'contour-revolve' } };
+};
@@ -0,0 +1,88 @@
+import { strFromU8, unzipSync } from 'three/examples/jsm/libs/fflate.module.js';
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_EXPORT_SETTINGS } from '../constants';
+import type { GeneratedGeometry } from '../types';
+import { exportAllVariations, type ExportAllOptions } from './exportArchive';
+
+const tetrahedron: GeneratedGeometry = {
+  vertices: [0, 0, 0, 1, 0, 0, 0, 1, 0, 0, 0, 1],
+  faces: [0, 2, 1, 0, 1, 3, 0, 3, 2, 1, 2, 3],
+  meta: { source: 'backend', model: 'gemini-2.5-flash' },
+};
+const colored: GeneratedGeometry = { ...tetrahedron, colors: new Array(12).fill(0.5), meta: { source: 'offline-inflation' } };
+
+const photo = new File(['raw photo'], 'photo.JPG', { type: 'image/jpeg' });
+const cleaned = new File(['cleaned'], 'front.png', { type: 'image/png' });
+const side = new File(['side'], 'side.png', { type: 'image/png' });
+
+const options: ExportAllOptions = {
+  formats: ['obj', 'stl'],
+  stlFormat: 'binary',
+  plyFormat: 'binary',
+  gltfFormat: 'glb',
+  showColors: true,
+  settings: DEFAULT_EXPORT_SETTINGS,
+  prompt: 'a teapot',
+  sketches: { front: cleaned, side },
+  originalSketches: { front: photo },
+};
+
+const unpack = async (blob: Blob) => unzipSync(new Uint8Array(await blob.arrayBuffer()));
+
+describe('export all', () => {
+  it('packs each variation, the sketches and the manifest', async () => {
+    const files = await unpack(await exportAllVariations([tetrahedron, colored], options));
+
+    expect(Object.keys(files)).toEqual([
+      'manifest.json',
+      'sketch/front.jpg',
+      'sketch/front_processed.png',
+      'sketch/side.png',
+      'model_1/model_1.obj',
+      'model_1/model_1.mtl',
+      'model_1/model_1.stl',
+      'model_2/model_2.obj',
+      'model_2/model_2.mtl',
+      'model_2/model_2.stl',
+    ]);
+  });
+
+  it('keeps the original upload next to the version that was sent', async () => {
+    const files = await unpack(await exportAllVariations([tetrahedron], options));
+
+    expect(strFromU8(files['sketch/front.jpg'])).toBe('raw photo');
+    expect(strFromU8(files['sketch/front_processed.png'])).toBe('cleaned');
+    // A view that was never changed is stored once
+    expect(strFromU8(files['sketch/side.png'])).toBe('side');
+  });
+
+  it('records the prompt, settings, sketches and each variation in the manifest', async () => {
+    const files = await unpack(await exportAllVariations([tetrahedron, colored], options));
+    const manifest = JSON.parse(strFromU8(files['manifest.json']));
+
+    expect(manifest).toMatchObject({
+      generator: 'Sketch-to-3D Mesh AI',
+      prompt: 'a teapot',
+      formats: ['obj', 'stl'],
+      exportSettings: DEFAULT_EXPORT_SETTINGS,
+      sketches: { front: 'sketch/front.jpg', side: 'sketch/side.png' },
+      processedSketches: { front: 'sketch/front_processed.png' },
+    });
+    expect(Number.isNaN(Date.parse(manifest.exportedAt))).toBe(false);
+    expect(manifest.variations).toEqual([
+      {
+        index: 0,
+        name: 'model_1',
+        files: ['model_1/model_1.obj', 'model_1/model_1.mtl', 'model_1/model_1.stl'],
+        source: 'backend',
+        model: 'gemini-2.5-flash',
+        params: null,
+        lineage: [],
+        stats: { vertices: 4, triangles: 4, hasColors: false, hasUvs: false, bounds: { min: [0, 0, 0], max: [1, 1, 1] } },
+        exportedSize: [1, 1, 1],
+      },
+      expect.objectContaining({ index: 1, name: 'model_2', source: 'offline-inflation', model: null }),
+    ]);
+    expect(manifest.variations[1].stats.hasColors).toBe(true);
+  });
+});
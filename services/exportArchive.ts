@@ -0,0 +1,138 @@
+import { strToU8, zipSync } from 'three/examples/jsm/libs/fflate.module.js';
+import type { ExportFormat, ExportSettings, GeneratedGeometry, GltfFormat, PlyFormat, SketchView, StlFormat } from '../types';
+import { exportedSize } from './exportSettings';
+import { export3MF, exportGLTF, exportPLY, exportSTL, exportUSDZ, objFiles } from './meshExport';
+
+export interface ExportAllOptions {
+  formats: ExportFormat[];
+  stlFormat: StlFormat;
+  plyFormat: PlyFormat;
+  gltfFormat: GltfFormat;
+  showColors: boolean;
+  // Units, size and orientation, applied to every format
+  settings: ExportSettings;
+  // The prompt box as it is now; each variation also records the prompt it was generated with
+  prompt: string;
+  // The views as sent to the backend, after any adjustment and cleanup
+  sketches: Partial<Record<SketchView, File>>;
+  // The same views as uploaded or drawn; a view missing here was sent untouched
+  originalSketches?: Partial<Record<SketchView, File>>;
+}
+
+export interface MeshStats {
+  vertices: number;
+  triangles: number;
+  hasColors: boolean;
+  hasUvs: boolean;
+  bounds: { min: number[]; max: number[] } | null;
+}
+
+export const meshStats = ({ vertices, faces, colors, uvs }: GeneratedGeometry): MeshStats => {
+  const min = [Infinity, Infinity, Infinity];
+  const max = [-Infinity, -Infinity, -Infinity];
+  for (let i = 0; i < vertices.length; i++) {
+    min[i % 3] = Math.min(min[i % 3], vertices[i]);
+    max[i % 3] = Math.max(max[i % 3], vertices[i]);
+  }
+  return {
+    vertices: vertices.length / 3,
+    triangles: Math.floor(faces.length / 3),
+    hasColors: !!colors && colors.length === vertices.length,
+    hasUvs: !!uvs && uvs.length === (vertices.length / 3) * 2,
+    bounds: vertices.length > 0 ? { min, max } : null,
+  };
+};
+
+const blobBytes = async (blob: Blob) => new Uint8Array(await blob.arrayBuffer());
+
+// One variation's files in each chosen format, keyed by their name inside its folder
+const variationFiles = async (
+  geometry: GeneratedGeometry,
+  name: string,
+  { formats, stlFormat, plyFormat, gltfFormat, showColors, settings }: ExportAllOptions,
+): Promise<Record<string, Uint8Array>> => {
+  const files: Record<string, Uint8Array> = {};
+  for (const format of formats) {
+    switch (format) {
+      case 'obj':
+        Object.assign(files, objFiles(geometry, name, settings));
+        break;
+      case 'stl':
+        files[`${name}.stl`] = await blobBytes(exportSTL(geometry, stlFormat, settings));
+        break;
+      case 'ply':
+        files[`${name}.ply`] = await blobBytes(exportPLY(geometry, plyFormat, settings));
+        break;
+      case '3mf':
+        files[`${name}.3mf`] = await blobBytes(export3MF(geometry, name, settings));
+        break;
+      case 'gltf':
+        files[`${name}.${gltfFormat}`] = await blobBytes(await exportGLTF(geometry, gltfFormat, showColors, settings));
+        break;
+      case 'usdz':
+        files[`${name}.usdz`] = await blobBytes(await exportUSDZ(geometry, showColors, settings));
+        break;
+    }
+  }
+  return files;
+};
+
+const fileExtension = (file: File) => file.name.match(/\.([a-z0-9]+)$/i)?.[1].toLowerCase() ?? 'png';
+
+/**
+ * One ZIP with every variation in the chosen formats (`model_N/` folders, named as the single
+ * exports are), the original sketches under `sketch/` (plus `sketch/<view>_processed.*` for
+ * views that were adjusted or cleaned up before sending), and a `manifest.json` recording the
+ * prompt, the export settings, each variation's index and parameters, and its mesh stats.
+ */
+export const exportAllVariations = async (geometries: GeneratedGeometry[], options: ExportAllOptions): Promise<Blob> => {
+  const entries: Record<string, Uint8Array> = {};
+
+  const sketches: Partial<Record<SketchView, string>> = {};
+  const processedSketches: Partial<Record<SketchView, string>> = {};
+  for (const [view, sent] of Object.entries(options.sketches) as [SketchView, File | undefined][]) {
+    if (!sent) continue;
+    const original = options.originalSketches?.[view] ?? sent;
+    const path = `sketch/${view}.${fileExtension(original)}`;
+    entries[path] = await blobBytes(original);
+    sketches[view] = path;
+    if (original !== sent) {
+      const processedPath = `sketch/${view}_processed.${fileExtension(sent)}`;
+      entries[processedPath] = await blobBytes(sent);
+      processedSketches[view] = processedPath;
+    }
+  }
+
+  const variations = [];
+  for (const [index, geometry] of geometries.entries()) {
+    const name = `model_${index + 1}`;
+    const files = await variationFiles(geometry, name, options);
+    for (const [file, bytes] of Object.entries(files)) entries[`${name}/${file}`] = bytes;
+    variations.push({
+      index,
+      name,
+      files: Object.keys(files).map((file) => `${name}/${file}`),
+      source: geometry.meta?.source ?? null,
+      model: geometry.meta?.model ?? null,
+      params: geometry.meta?.params ?? null,
+      lineage: geometry.meta?.lineage ?? [],
+      stats: meshStats(geometry),
+      // Width, depth and height in `exportSettings.unit`, before any Y-up turn
+      exportedSize: exportedSize(geometry, options.settings),
+    });
+  }
+
+  const manifest = {
+    generator: 'Sketch-to-3D Mesh AI',
+    exportedAt: new Date().toISOString(),
+    prompt: options.prompt,
+    formats: options.formats,
+    exportSettings: options.settings,
+    sketches,
+    processedSketches,
+    variations,
+  };
+  // The manifest goes first so it is the first thing listed when the archive is opened
+  const archive = zipSync({ 'manifest.json': strToU8(JSON.stringify(manifest, null, 2) + '\n'), ...entries });
+  return new Blob([archive], { type: 'application/zip' });
+};
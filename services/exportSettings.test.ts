@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_EXPORT_SETTINGS } from '../constants';
+import { changeExportUnit, exportedSize, exportScale, metricExportScale, placeForExport } from './exportSettings';
+
+// 20 wide, 10 deep and 5 tall, Z-up
+const slab = {
+  vertices: new Float32Array([0, 0, 0, 20, 0, 0, 20, 10, 0, 0, 10, 5]),
+  faces: new Uint32Array([0, 1, 2, 0, 2, 3]),
+};
+
+describe('export settings', () => {
+  it('keeps the generated size by default', () => {
+    expect(DEFAULT_EXPORT_SETTINGS.sizing).toBe('original');
+    expect(exportScale(slab, DEFAULT_EXPORT_SETTINGS)).toBe(1);
+    expect(exportedSize(slab, DEFAULT_EXPORT_SETTINGS)).toEqual([20, 10, 5]);
+  });
+
+  it('scales uniformly to a target height or width', () => {
+    expect(exportedSize(slab, { ...DEFAULT_EXPORT_SETTINGS, sizing: 'height', targetSize: 50 })).toEqual([200, 100, 50]);
+    expect(exportedSize(slab, { ...DEFAULT_EXPORT_SETTINGS, sizing: 'width', targetSize: 50 })).toEqual([50, 25, 12.5]);
+  });
+
+  it('fits the print bed by its tightest side', () => {
+    const settings = { ...DEFAULT_EXPORT_SETTINGS, sizing: 'print-bed' as const, printBed: [100, 100, 100] as [number, number, number] };
+    expect(exportScale(slab, settings)).toBe(5);
+  });
+
+  it('sizes glTF and USD at one metre per model unit unless a size is chosen', () => {
+    expect(metricExportScale(slab, DEFAULT_EXPORT_SETTINGS)).toBe(1);
+    expect(metricExportScale(slab, { ...DEFAULT_EXPORT_SETTINGS, unit: 'in' })).toBe(1);
+    expect(metricExportScale(slab, { ...DEFAULT_EXPORT_SETTINGS, sizing: 'height', targetSize: 50 })).toBeCloseTo(0.01, 6);
+    expect(metricExportScale(slab, { ...DEFAULT_EXPORT_SETTINGS, unit: 'cm', sizing: 'width', targetSize: 40 })).toBeCloseTo(0.02, 6);
+  });
+
+  it('keeps physical sizes when the unit changes', () => {
+    const settings = changeExportUnit({ ...DEFAULT_EXPORT_SETTINGS, targetSize: 100 }, 'cm');
+    expect(settings.unit).toBe('cm');
+    expect(settings.targetSize).toBe(10);
+    expect(settings.printBed).toEqual([22, 22, 25]);
+  });
+
+  it('turns the model upright for Y-up', () => {
+    const placed = placeForExport(slab, 2, 'y');
+    expect(Array.from(placed.vertices.slice(9))).toEqual([0, 10, -20]);
+    expect(placed.faces).toBe(slab.faces);
+  });
+});
@@ -0,0 +1,109 @@
+import type { ExportSettings, ExportSizing, GeneratedGeometry, LengthUnit, UpAxis } from '../types';
+import { DEFAULT_EXPORT_SETTINGS } from '../constants';
+
+// The printer and units rarely change, so the settings outlive the session
+const EXPORT_SETTINGS_KEY = 'sketch-to-3d:export-settings';
+
+export const loadExportSettings = (): ExportSettings => {
+  try {
+    const raw = localStorage.getItem(EXPORT_SETTINGS_KEY);
+    const settings = raw ? { ...DEFAULT_EXPORT_SETTINGS, ...JSON.parse(raw) } : DEFAULT_EXPORT_SETTINGS;
+    return Array.isArray(settings.printBed) && settings.printBed.length === 3 ? settings : DEFAULT_EXPORT_SETTINGS;
+  } catch {
+    return DEFAULT_EXPORT_SETTINGS;
+  }
+};
+
+export const saveExportSettings = (settings: ExportSettings) => {
+  try {
+    localStorage.setItem(EXPORT_SETTINGS_KEY, JSON.stringify(settings));
+  } catch (e) {
+    console.warn("Could not save export settings:", e);
+  }
+};
+
+// glTF and USD measure in metres
+export const METRES_PER_UNIT: Record<LengthUnit, number> = {
+  mm: 0.001,
+  cm: 0.01,
+  in: 0.0254,
+};
+
+// Switching units keeps the physical target and bed sizes, rounded for the inputs
+export const changeExportUnit = (settings: ExportSettings, unit: LengthUnit): ExportSettings => {
+  const convert = (value: number) =>
+    Math.round((value * METRES_PER_UNIT[settings.unit]) / METRES_PER_UNIT[unit] * 100) / 100;
+  return {
+    ...settings,
+    unit,
+    targetSize: convert(settings.targetSize),
+    printBed: settings.printBed.map(convert) as ExportSettings['printBed'],
+  };
+};
+
+// Width (X), depth (Y) and height (Z) of the Z-up model, in model units
+const modelSize = ({ vertices }: GeneratedGeometry): number[] => {
+  if (vertices.length === 0) return [0, 0, 0];
+  const min = [Infinity, Infinity, Infinity];
+  const max = [-Infinity, -Infinity, -Infinity];
+  for (let i = 0; i < vertices.length; i++) {
+    min[i % 3] = Math.min(min[i % 3], vertices[i]);
+    max[i % 3] = Math.max(max[i % 3], vertices[i]);
+  }
+  return max.map((value, axis) => value - min[axis]);
+};
+
+/**
+ * Length units per model unit. Scaling is uniform, so a print-bed fit is limited by whichever
+ * side runs out of room first; flat models leave out the axes they have no extent along.
+ */
+export const exportScale = (geometry: GeneratedGeometry, settings: ExportSettings): number => {
+  const [width, depth, height] = modelSize(geometry);
+  const ratio = (target: number, size: number) => (size > 0 ? target / size : Infinity);
+  let scale = 1;
+  if (settings.sizing === 'height') scale = ratio(settings.targetSize, height);
+  else if (settings.sizing === 'width') scale = ratio(settings.targetSize, width);
+  else if (settings.sizing === 'print-bed') {
+    const [bedWidth, bedDepth, bedHeight] = settings.printBed;
+    scale = Math.min(ratio(bedWidth, width), ratio(bedDepth, depth), ratio(bedHeight, height));
+  }
+  return Number.isFinite(scale) && scale > 0 ? scale : 1;
+};
+
+/**
+ * Metres per model unit, for glTF and USD. At the generated size a model unit stays one metre,
+ * as the backend means it; only a chosen height, width or bed is converted from its unit.
+ */
+export const metricExportScale = (geometry: GeneratedGeometry, settings: ExportSettings): number =>
+  settings.sizing === 'original' ? 1 : exportScale(geometry, settings) * METRES_PER_UNIT[settings.unit];
+
+// Width, depth and height of the exported model, in the chosen unit
+export const exportedSize = (geometry: GeneratedGeometry, settings: ExportSettings): number[] => {
+  const scale = exportScale(geometry, settings);
+  return modelSize(geometry).map((size) => size * scale);
+};
+
+/**
+ * Scales the Z-up model about its origin and, for Y-up, turns it upright with its front
+ * facing +Z, as the viewer shows it. Colours, UVs and faces are shared with the original.
+ */
+export const placeForExport = (geometry: GeneratedGeometry, scale: number, upAxis: UpAxis): GeneratedGeometry => {
+  const { vertices } = geometry;
+  const placed = new Float32Array(vertices.length);
+  for (let i = 0; i + 2 < vertices.length; i += 3) {
+    const [x, y, z] = [vertices[i] * scale, vertices[i + 1] * scale, vertices[i + 2] * scale];
+    placed.set(upAxis === 'y' ? [x, z, -y] : [x, y, z], i);
+  }
+  return { ...geometry, vertices: placed };
+};
+
+// A short line for the sidebar and the Export all panel, e.g. "100 mm tall, Z-up"
+export const describeExportSettings = ({ unit, sizing, targetSize, printBed, upAxis }: ExportSettings): string => {
+  const size: Record<ExportSizing, string> = {
+    'original': `1 model unit = 1 ${unit}`,
+    'height': `${targetSize} ${unit} tall`,
+    'width': `${targetSize} ${unit} wide`,
+    'print-bed': `Fits ${printBed.join(' × ')} ${unit}`,
+  };
+  return `${size[sizing]}, ${upAxis.toUpperCase()}-up`;
+};
@@ -0,0 +1,181 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { GeneratedGeometry, GenerationBackend, GenerationRequest, JobStatusPayload } from '../types';
+import { BackendError, followGenerationJob, runGenerationJob } from './generationClient';
+
+const mesh = (id: number): GeneratedGeometry => ({ vertices: [id, 0, 0, 0, 1, 0, 0, 0, 1], faces: [0, 1, 2] });
+
+const status = (state: JobStatusPayload['state'], variations?: JobStatusPayload['variations']): JobStatusPayload => ({
+  jobId: 'job-1',
+  state,
+  stage: null,
+  completedStages: [],
+  stageDurations: {},
+  etaSeconds: null,
+  variations,
+});
+
+// A backend whose job has already finished, unless a test says otherwise
+const fakeBackend = (overrides: Partial<GenerationBackend> = {}): GenerationBackend => ({
+  name: 'fake',
+  submitJob: vi.fn(async () => ({ jobId: 'job-1' })),
+  getJobStatus: vi.fn(async () => status('succeeded')),
+  getJobResult: vi.fn(async () => [mesh(1)]),
+  getVariationResult: vi.fn(async (_jobId: string, index: number) => mesh(index)),
+  cancelJob: vi.fn(async () => {}),
+  ...overrides,
+});
+
+// The workspace only ever fills these in; the fake backend never reads them
+const request = {} as GenerationRequest;
+
+// Runs the job to completion on fake timers, settling to its result or its error
+const settle = async <T>(job: Promise<T>): Promise<T | Error> => {
+  const result = job.catch((e: Error) => e);
+  await vi.runAllTimersAsync();
+  return result;
+};
+
+describe('generation jobs', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(Math, 'random').mockReturnValue(0.5);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('does not resubmit a job the server rejected', async () => {
+    const backend = fakeBackend({ submitJob: vi.fn().mockRejectedValue(new BackendError('Backend Error: bad sketch', 400)) });
+
+    const result = await settle(runGenerationJob(backend, request, { onProgress: vi.fn() }));
+
+    expect((result as Error).message).toBe('Backend Error: bad sketch');
+    expect(backend.submitJob).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not resubmit after a dropped connection, as the job may have started', async () => {
+    const backend = fakeBackend({ submitJob: vi.fn().mockRejectedValue(new TypeError('Failed to fetch')) });
+
+    await settle(runGenerationJob(backend, request, { onProgress: vi.fn() }));
+
+    expect(backend.submitJob).toHaveBeenCalledTimes(1);
+  });
+
+  it('resubmits when the server never handled the job', async () => {
+    const submitJob = vi.fn()
+      .mockRejectedValueOnce(new BackendError('Backend Error: Service Unavailable', 503))
+      .mockRejectedValueOnce(new BackendError('Backend Error: Too Many Requests', 429))
+      .mockResolvedValue({ jobId: 'job-1' });
+    const onRetry = vi.fn();
+    const onSubmitted = vi.fn();
+
+    const result = await settle(runGenerationJob(fakeBackend({ submitJob }), request, { onProgress: vi.fn(), onRetry, onSubmitted }));
+
+    expect(result).toEqual([mesh(1)]);
+    expect(submitJob).toHaveBeenCalledTimes(3);
+    expect(onRetry.mock.calls.map(([, attempt, delayMs]) => [attempt, delayMs])).toEqual([[1, 500], [2, 1000]]);
+    expect(onSubmitted).toHaveBeenCalledWith('job-1');
+  });
+
+  it('retries a poll that fails with a server error', async () => {
+    const getJobStatus = vi.fn()
+      .mockRejectedValueOnce(new BackendError('Backend Error: Bad Gateway', 502))
+      .mockResolvedValueOnce(status('running'))
+      .mockResolvedValue(status('succeeded'));
+    const onProgress = vi.fn();
+
+    const result = await settle(runGenerationJob(fakeBackend({ getJobStatus }), request, { onProgress }));
+
+    expect(result).toEqual([mesh(1)]);
+    expect(getJobStatus).toHaveBeenCalledTimes(3);
+    expect(onProgress).toHaveBeenCalledTimes(2);
+  });
+
+  it('reattaches to a persisted job without submitting it again', async () => {
+    const getJobStatus = vi.fn()
+      .mockResolvedValueOnce({ ...status('running'), stage: 'SKETCH_PREP', etaSeconds: 20 })
+      .mockResolvedValue(status('succeeded'));
+    const backend = fakeBackend({ getJobStatus });
+    const onProgress = vi.fn();
+
+    const result = await settle(followGenerationJob(backend, 'job-7', { onProgress }));
+
+    expect(result).toEqual([mesh(1)]);
+    expect(backend.submitJob).not.toHaveBeenCalled();
+    expect(getJobStatus).toHaveBeenCalledWith('job-7', undefined);
+    expect(backend.getJobResult).toHaveBeenCalledWith('job-7', undefined);
+    expect(onProgress.mock.calls[0][0].etaSeconds).toBe(20);
+  });
+
+  it('rejects with the job error once the job fails', async () => {
+    const backend = fakeBackend({ getJobStatus: vi.fn(async () => ({ ...status('failed'), error: 'GPU out of memory' })) });
+
+    const result = await settle(followGenerationJob(backend, 'job-1', { onProgress: vi.fn() }));
+
+    expect((result as Error).message).toBe('GPU out of memory');
+  });
+});
+
+describe('streamed variations', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(Math, 'random').mockReturnValue(0.5);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('hands out variations as they finish and returns them in request order', async () => {
+    const getJobStatus = vi.fn()
+      .mockResolvedValueOnce(status('running', [
+        { index: 0, state: 'pending' },
+        { index: 1, state: 'pending' },
+        { index: 2, state: 'succeeded' },
+      ]))
+      .mockResolvedValue(status('succeeded', [
+        { index: 0, state: 'succeeded' },
+        { index: 1, state: 'failed', error: 'GPU out of memory' },
+        { index: 2, state: 'succeeded' },
+      ]));
+    const backend = fakeBackend({ getJobStatus });
+    const onVariation = vi.fn();
+    const onVariationFailed = vi.fn();
+
+    const result = await settle(followGenerationJob(backend, 'job-1', { onProgress: vi.fn(), onVariation, onVariationFailed }));
+
+    expect(onVariation.mock.calls).toEqual([[2, mesh(2)], [0, mesh(0)]]);
+    expect(onVariationFailed.mock.calls).toEqual([[1, 'GPU out of memory']]);
+    // Each variation is fetched once, and the failed one stands as an empty mesh
+    expect(backend.getVariationResult).toHaveBeenCalledTimes(2);
+    expect(backend.getJobResult).not.toHaveBeenCalled();
+    expect(result).toEqual([mesh(0), { vertices: [], faces: [] }, mesh(2)]);
+  });
+
+  it('reports a variation that cannot be fetched without failing the others', async () => {
+    const getVariationResult = vi.fn(async (_jobId: string, index: number) => {
+      if (index === 0) throw new BackendError('Backend Error: Not Found', 404);
+      return mesh(index);
+    });
+    const backend = fakeBackend({
+      getJobStatus: vi.fn(async () => status('succeeded', [
+        { index: 0, state: 'succeeded' },
+        { index: 1, state: 'succeeded' },
+      ])),
+      getVariationResult,
+    });
+    const onVariation = vi.fn();
+    const onVariationFailed = vi.fn();
+
+    const result = await settle(followGenerationJob(backend, 'job-1', { onProgress: vi.fn(), onVariation, onVariationFailed }));
+
+    // A 404 is not transient, so it is not retried
+    expect(getVariationResult).toHaveBeenCalledTimes(2);
+    expect(onVariationFailed.mock.calls).toEqual([[0, 'Backend Error: Not Found']]);
+    expect(onVariation.mock.calls).toEqual([[1, mesh(1)]]);
+    expect(result).toEqual([{ vertices: [], faces: [] }, mesh(1)]);
+  });
+});
@@ -0,0 +1,286 @@
+import type {
+  GeneratedGeometry,
+  GenerationBackend,
+  GenerationErrorBody,
+  GenerationRequest,
+  GenerationResponse,
+  JobStatusPayload,
+  JobSubmission,
+  MeshPayload,
+  PipelineStatus,
+  SketchView,
+} from '../types';
+import { EXTRA_SKETCH_VIEWS } from '../constants';
+import { createMockBackend } from './mockBackend';
+import { decodeMeshBinary, encodeMeshBinary, isMeshBinaryResponse, MESH_BINARY_CONTENT_TYPE } from './meshCodec';
+import { toPipelineStatus } from './pipeline';
+import { DEFAULT_RETRY_OPTIONS, type RetryOptions, wait, withRetry } from './retry';
+
+// Setting the API URL to this value selects the in-browser mock backend
+export const MOCK_API_URL = 'mock';
+
+export interface GenerationConfig {
+  apiUrl: string;
+}
+
+declare global {
+  interface Window {
+    // Optional runtime override, e.g. injected by the hosting page before the bundle loads
+    __GENERATION_CONFIG__?: Partial<GenerationConfig>;
+  }
+}
+
+/**
+ * Resolves where generation requests go. A runtime override on `window` wins over
+ * the build-time GENERATION_API_URL; with neither set we fall back to the mock.
+ */
+export const getGenerationConfig = (): GenerationConfig => {
+  const runtimeUrl = typeof window !== 'undefined' ? window.__GENERATION_CONFIG__?.apiUrl : undefined;
+  const apiUrl = (runtimeUrl || process.env.GENERATION_API_URL || MOCK_API_URL).trim();
+  return { apiUrl };
+};
+
+// A non-2xx answer from the generation server; `status` drives the retry policy
+export class BackendError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+    this.name = 'BackendError';
+  }
+}
+
+const joinUrl = (base: string, path: string) => `${base.replace(/\/+$/, '')}/${path}`;
+
+const readErrorDetail = async (response: Response): Promise<string> => {
+  try {
+    const body: GenerationErrorBody = await response.json();
+    return body.detail || response.statusText;
+  } catch {
+    return response.statusText;
+  }
+};
+
+const isMeshPayload = (value: unknown): value is MeshPayload => {
+  const payload = value as MeshPayload | null;
+  return !!payload && Array.isArray(payload.vertices) && Array.isArray(payload.faces);
+};
+
+/**
+ * Maps the raw response onto GeneratedGeometry. Entries without mesh arrays become empty
+ * meshes rather than disappearing, so validation can report them by their position.
+ */
+export const parseGenerationResponse = (results: unknown): GeneratedGeometry[] => {
+  if (!Array.isArray(results) || results.length === 0) {
+    throw new Error("The model failed to return valid 3D data.");
+  }
+
+  return (results as GenerationResponse).map((res) => isMeshPayload(res)
+    ? {
+        vertices: res.vertices,
+        faces: res.faces,
+        uvs: res.uvs,
+        colors: res.colors || [],
+      }
+    : { vertices: [], faces: [] });
+};
+
+// Lets requests through ngrok tunnels without the interstitial page
+const NGROK_HEADERS = { "ngrok-skip-browser-warning": "69420" };
+
+const sendRequest = async (url: string, init: RequestInit = {}): Promise<Response> => {
+  const response = await fetch(url, {
+    ...init,
+    headers: { ...NGROK_HEADERS, ...init.headers },
+  });
+  if (!response.ok) {
+    throw new BackendError(`Backend Error: ${await readErrorDetail(response)}`, response.status);
+  }
+  return response;
+};
+
+const requestJson = async <T>(url: string, init: RequestInit = {}): Promise<T> => (await sendRequest(url, init)).json();
+
+// Prefer the compact binary meshes; servers that don't speak it answer with JSON
+const RESULT_ACCEPT = `${MESH_BINARY_CONTENT_TYPE}, application/json;q=0.9`;
+
+const jobUrl = (apiUrl: string, jobId: string, suffix = '') =>
+  joinUrl(apiUrl, `jobs/${encodeURIComponent(jobId)}${suffix}`);
+
+export const createHttpBackend = (apiUrl: string): GenerationBackend => ({
+  name: apiUrl,
+  submitJob: (request: GenerationRequest, signal?: AbortSignal) => {
+    const formData = new FormData();
+    formData.append("file", request.sketch, request.sketch.name);
+    // Extra orthographic views go in their own fields; `views` lists every view sent, front first
+    const views: SketchView[] = ['front'];
+    for (const view of EXTRA_SKETCH_VIEWS) {
+      const file = request.extraViews[view];
+      if (!file) continue;
+      formData.append(`${view}View`, file, file.name);
+      views.push(view);
+    }
+    formData.append("views", views.join(','));
+    formData.append("prompt", request.prompt);
+    formData.append("style", request.options.style);
+    formData.append("negativePrompt", request.options.negativePrompt);
+    formData.append("detail", request.options.detail);
+    formData.append("variations", String(request.variations));
+    formData.append("seeds", request.seeds.join(','));
+    formData.append("model", request.model);
+    formData.append("maxVariations", String(request.capabilities.maxVariations));
+    formData.append("supportsColor", String(request.capabilities.supportsColor));
+    // The variation being refined travels in the same binary layout as results
+    if (request.conditioning) {
+      const mesh = new Blob([encodeMeshBinary([request.conditioning])], { type: MESH_BINARY_CONTENT_TYPE });
+      formData.append("conditioningMesh", mesh, "conditioning.sk3m");
+    }
+    return requestJson<JobSubmission>(joinUrl(apiUrl, 'jobs/'), { method: "POST", body: formData, signal });
+  },
+  getJobStatus: (jobId: string, signal?: AbortSignal) =>
+    requestJson<JobStatusPayload>(jobUrl(apiUrl, jobId), { signal }),
+  getJobResult: async (jobId: string, signal?: AbortSignal) => {
+    const response = await sendRequest(jobUrl(apiUrl, jobId, '/result'), { signal, headers: { Accept: RESULT_ACCEPT } });
+    if (!isMeshBinaryResponse(response)) {
+      return parseGenerationResponse(await response.json());
+    }
+    const geometries = decodeMeshBinary(await response.arrayBuffer());
+    if (geometries.length === 0) {
+      throw new Error("The model failed to return valid 3D data.");
+    }
+    return geometries;
+  },
+  getVariationResult: async (jobId: string, index: number, signal?: AbortSignal) => {
+    const response = await sendRequest(jobUrl(apiUrl, jobId, `/variations/${index}`), { signal, headers: { Accept: RESULT_ACCEPT } });
+    // A single JSON mesh, or a binary payload holding one
+    const [geometry] = isMeshBinaryResponse(response)
+      ? decodeMeshBinary(await response.arrayBuffer())
+      : parseGenerationResponse([await response.json()]);
+    if (!geometry) {
+      throw new Error("The model failed to return valid 3D data.");
+    }
+    return geometry;
+  },
+  // Any 2xx means cancelled; the body, often empty (204), is not read
+  cancelJob: async (jobId: string) => {
+    await sendRequest(jobUrl(apiUrl, jobId), { method: "DELETE" });
+  },
+});
+
+export const getGenerationBackend = (config: GenerationConfig = getGenerationConfig()): GenerationBackend =>
+  config.apiUrl === MOCK_API_URL ? createMockBackend() : createHttpBackend(config.apiUrl);
+
+// How often a running job is polled for progress
+const POLL_INTERVAL_MS = 1000;
+
+// Statuses where the server (or a proxy in front of it) never got to act on the request
+const UNHANDLED_STATUSES = [429, 502, 503, 504];
+
+export const isAbortError = (e: unknown) => e instanceof DOMException && e.name === 'AbortError';
+
+// Dropped connections (fetch rejects with a TypeError) and overloaded or restarting servers
+export const isTransientError = (e: unknown) =>
+  e instanceof TypeError || (e instanceof BackendError && (e.status >= 500 || e.status === 408 || e.status === 429));
+
+export interface RunJobOptions {
+  onProgress: (status: PipelineStatus) => void;
+  // Called as soon as the backend accepts the job, e.g. to remember it across reloads
+  onSubmitted?: (jobId: string) => void;
+  // Called before each automatic retry of a failed request
+  onRetry?: (error: unknown, attempt: number) => void;
+  // Aborting stops polling and rejects with an AbortError; the backend job keeps running
+  signal?: AbortSignal;
+  // With these set, variations are fetched one by one as the server reports them done
+  onVariation?: (index: number, geometry: GeneratedGeometry) => void;
+  onVariationFailed?: (index: number, error: string) => void;
+}
+
+const retryOptions = (
+  { signal, onRetry }: RunJobOptions,
+  shouldRetry: (error: unknown) => boolean = isTransientError,
+): RetryOptions => ({
+  ...DEFAULT_RETRY_OPTIONS,
+  shouldRetry,
+  signal,
+  onRetry,
+});
+
+/**
+ * Polls an already submitted job until it finishes, reporting every status update
+ * through `onProgress`. Resolves with the job's meshes or rejects with the job error.
+ * Transient network and server errors are retried with backoff before giving up.
+ *
+ * When the caller listens for single variations and the server reports them, each one is
+ * fetched as soon as it is done. The job then resolves with what was streamed, in request
+ * order, with empty meshes standing in for failed variations.
+ */
+export const followGenerationJob = async (
+  backend: GenerationBackend,
+  jobId: string,
+  options: RunJobOptions,
+): Promise<GeneratedGeometry[]> => {
+  const { onProgress, onVariation, onVariationFailed, signal } = options;
+  const streamed = new Map<number, GeneratedGeometry>();
+  let isStreaming = false;
+
+  for (;;) {
+    signal?.throwIfAborted();
+    const status = await withRetry(() => backend.getJobStatus(jobId, signal), retryOptions(options));
+    signal?.throwIfAborted();
+    onProgress(toPipelineStatus(status));
+
+    if (status.variations && onVariation) {
+      isStreaming = true;
+      for (const variation of status.variations) {
+        if (streamed.has(variation.index) || variation.state === 'pending') continue;
+        if (variation.state === 'failed') {
+          streamed.set(variation.index, { vertices: [], faces: [] });
+          onVariationFailed?.(variation.index, variation.error || "The variation failed.");
+          continue;
+        }
+        let geometry: GeneratedGeometry;
+        try {
+          geometry = await withRetry(() => backend.getVariationResult(jobId, variation.index, signal), retryOptions(options));
+        } catch (e) {
+          // One unreadable variation shouldn't take its siblings down with it
+          if (signal?.aborted || isAbortError(e)) throw e;
+          streamed.set(variation.index, { vertices: [], faces: [] });
+          onVariationFailed?.(variation.index, e instanceof Error ? e.message : String(e));
+          continue;
+        }
+        signal?.throwIfAborted();
+        streamed.set(variation.index, geometry);
+        onVariation(variation.index, geometry);
+      }
+    }
+
+    switch (status.state) {
+      case 'succeeded':
+        if (isStreaming) {
+          return [...streamed.entries()].sort(([a], [b]) => a - b).map(([, geometry]) => geometry);
+        }
+        return withRetry(() => backend.getJobResult(jobId, signal), retryOptions(options));
+      case 'failed':
+        throw new Error(status.error || "The generation job failed.");
+      case 'cancelled':
+        throw new Error("The generation job was cancelled.");
+      default:
+        await wait(POLL_INTERVAL_MS, signal);
+    }
+  }
+};
+
+/**
+ * Submits a job and follows it to completion. A submission is only retried when the
+ * server clearly never handled it, so a flaky connection can't start the job twice.
+ */
+export const runGenerationJob = async (
+  backend: GenerationBackend,
+  request: GenerationRequest,
+  options: RunJobOptions,
+): Promise<GeneratedGeometry[]> => {
+  const { jobId } = await withRetry(
+    () => backend.submitJob(request, options.signal),
+    retryOptions(options, (e) => e instanceof BackendError && UNHANDLED_STATUSES.includes(e.status)),
+  );
+  options.onSubmitted?.(jobId);
+  return followGenerationJob(backend, jobId, options);
+};
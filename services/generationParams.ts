@@ -0,0 +1,57 @@
+import type { GeneratedGeometry, GenerationParams, ModelId, RefinementStep, VariationMeta } from '../types';
+
+// Seeds stay within a signed 32-bit integer so any backend can parse them
+export const MAX_SEED = 2 ** 31 - 1;
+
+export const randomSeed = (): number => crypto.getRandomValues(new Uint32Array(1))[0] % MAX_SEED;
+
+// A seed per variation: locked ones are reused, the rest are drawn fresh
+export const resolveSeeds = (count: number, lockedSeeds: (number | null)[]): number[] =>
+  Array.from({ length: count }, (_, i) => lockedSeeds[i] ?? randomSeed());
+
+/**
+ * Fingerprints the exact images sent to the backend, so a recorded result can be matched
+ * to the sketch it came from.
+ */
+export const hashSketchFiles = async (files: Blob[]): Promise<string> => {
+  const buffers = await Promise.all(files.map((file) => file.arrayBuffer()));
+  const bytes = new Uint8Array(buffers.reduce((total, buffer) => total + buffer.byteLength, 0));
+  let offset = 0;
+  for (const buffer of buffers) {
+    bytes.set(new Uint8Array(buffer), offset);
+    offset += buffer.byteLength;
+  }
+  const digest = await crypto.subtle.digest('SHA-256', bytes);
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+};
+
+// What one generation run was asked for; each variation's own seed completes it
+export type GenerationRun = Omit<GenerationParams, 'seed' | 'index'> & { seeds: number[] };
+
+// Metadata for the backend variation at `index` of a run
+export const generationMeta = (
+  index: number,
+  model: ModelId,
+  run: GenerationRun | null,
+  lineage?: RefinementStep[],
+): VariationMeta => {
+  let params: GenerationParams | undefined;
+  if (run && run.seeds[index] !== undefined) {
+    const { seeds, ...shared } = run;
+    params = { ...shared, seed: seeds[index], index };
+  }
+  return { source: 'backend', model, params, lineage };
+};
+
+/**
+ * Tags backend variations with where they came from and the parameters that reproduce
+ * them, plus the lineage of a refinement. Variations are matched to seeds by position,
+ * before validation drops any.
+ */
+export const withGenerationMeta = (
+  geometries: GeneratedGeometry[],
+  model: ModelId,
+  run: GenerationRun | null,
+  lineage?: RefinementStep[],
+): GeneratedGeometry[] =>
+  geometries.map((geometry, i) => ({ ...geometry, meta: generationMeta(i, model, run, lineage) }));
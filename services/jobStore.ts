@@ -0,0 +1,58 @@
+import type { ExtraSketchView, ModelId, PromptOptions, RefinementStep } from '../types';
+
+// The generation job that is currently running, remembered so a reload can reattach to it
+export interface PersistedJob {
+  jobId: string;
+  // Name of the backend that owns the job; jobs from another backend are discarded
+  backendName: string;
+  prompt: string;
+  // Missing on jobs saved before structured prompt options existed
+  promptOptions?: PromptOptions;
+  variations: number;
+  model: ModelId;
+  sketchName: string;
+  sketchDataUrl: string | null;
+  // Side and top views sent with the front sketch; missing on jobs saved before they existed
+  extraViews?: Partial<Record<ExtraSketchView, { name: string; dataUrl: string }>>;
+  // Recorded so resumed results can still be reproduced; missing on older jobs
+  seeds?: number[];
+  sketchHash?: string;
+  // Set when the job refines an earlier variation; the conditioning mesh itself isn't kept
+  lineage?: RefinementStep[];
+  submittedAt: number;
+}
+
+const ACTIVE_JOB_KEY = 'sketch-to-3d:active-job';
+
+export const saveActiveJob = (job: PersistedJob) => {
+  try {
+    localStorage.setItem(ACTIVE_JOB_KEY, JSON.stringify(job));
+  } catch (e) {
+    // Usually the quota: retry without the sketches so at least the job itself survives
+    try {
+      localStorage.setItem(ACTIVE_JOB_KEY, JSON.stringify({ ...job, sketchDataUrl: null, extraViews: undefined }));
+    } catch {
+      console.warn("Could not persist the active generation job:", e);
+    }
+  }
+};
+
+export const loadActiveJob = (): PersistedJob | null => {
+  try {
+    const raw = localStorage.getItem(ACTIVE_JOB_KEY);
+    const job = raw ? (JSON.parse(raw) as PersistedJob) : null;
+    return job && typeof job.jobId === 'string' ? job : null;
+  } catch {
+    return null;
+  }
+};
+
+export const clearActiveJob = () => {
+  localStorage.removeItem(ACTIVE_JOB_KEY);
+};
+
+// Rebuilds the uploaded sketch from its persisted data URL
+export const dataUrlToFile = async (dataUrl: string, name: string): Promise<File> => {
+  const blob = await (await fetch(dataUrl)).blob();
+  return new File([blob], name, { type: blob.type });
+};
@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { decodeMeshBinary, encodeMeshBinary } from './meshCodec';
+
+const tetrahedron = {
+  vertices: [0, 0, 0, 1, 0, 0, 0, 1, 0, 0, 0, 1],
+  faces: [0, 2, 1, 0, 1, 3, 0, 3, 2, 1, 2, 3],
+};
+
+describe('mesh codec', () => {
+  it('round-trips positions, indices, colours and UVs', () => {
+    const colored = {
+      ...tetrahedron,
+      colors: [1, 0, 0, 0, 1, 0, 0, 0, 1, 0.5, 0.5, 0.5],
+      uvs: [0, 0, 1, 0, 0, 1, 0.5, 0.5],
+    };
+    const [plain, withAttributes] = decodeMeshBinary(encodeMeshBinary([tetrahedron, colored]));
+
+    expect(Array.from(plain.vertices)).toEqual(tetrahedron.vertices);
+    expect(Array.from(plain.faces)).toEqual(tetrahedron.faces);
+    expect(plain.colors).toBeUndefined();
+    expect(plain.uvs).toBeUndefined();
+    expect(Array.from(withAttributes.colors!)).toEqual(colored.colors);
+    expect(Array.from(withAttributes.uvs!)).toEqual(colored.uvs);
+  });
+
+  it('leaves out colours and UVs that are not one per vertex', () => {
+    const [decoded] = decodeMeshBinary(encodeMeshBinary([{ ...tetrahedron, colors: [1, 0, 0], uvs: [0, 0] }]));
+    expect(decoded.colors).toBeUndefined();
+    expect(decoded.uvs).toBeUndefined();
+  });
+
+  it('rejects a foreign or truncated payload', () => {
+    const buffer = encodeMeshBinary([tetrahedron]);
+    expect(() => decodeMeshBinary(buffer.slice(0, buffer.byteLength - 4))).toThrow('truncated mesh data');
+    const foreign = buffer.slice(0);
+    new Uint8Array(foreign)[0] = 'X'.charCodeAt(0);
+    expect(() => decodeMeshBinary(foreign)).toThrow('unexpected magic');
+  });
+});
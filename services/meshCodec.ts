@@ -0,0 +1,107 @@
+import type { GeneratedGeometry } from '../types';
+
+/**
+ * Binary mesh transport ("SK3M"), served for `GET /jobs/{jobId}/result` when the client
+ * sends `Accept: application/vnd.sketch3d.mesh`, and for the `conditioningMesh` upload of a
+ * refinement. All values are little-endian.
+ *
+ *   header   magic "SK3M" | uint32 version (1) | uint32 meshCount | uint32 reserved
+ *   table    per mesh: uint32 vertexCount | uint32 indexCount | uint32 flags | uint32 reserved
+ *   body     per mesh, in table order:
+ *              float32[vertexCount * 3]  positions
+ *              uint32[indexCount]        triangle indices
+ *              float32[vertexCount * 3]  colors  (flags & 1)
+ *              float32[vertexCount * 2]  uvs     (flags & 2)
+ *
+ * Every section is a multiple of 4 bytes, so the arrays are decoded as views onto the
+ * response buffer without copying.
+ */
+export const MESH_BINARY_CONTENT_TYPE = 'application/vnd.sketch3d.mesh';
+
+const MAGIC = 'SK3M';
+const VERSION = 1;
+const HEADER_BYTES = 16;
+const TABLE_ENTRY_BYTES = 16;
+const FLAG_COLORS = 1;
+const FLAG_UVS = 2;
+
+export const isMeshBinaryResponse = (response: Response) =>
+  (response.headers.get('Content-Type') || '').split(';')[0].trim().toLowerCase() === MESH_BINARY_CONTENT_TYPE;
+
+export const decodeMeshBinary = (buffer: ArrayBuffer): GeneratedGeometry[] => {
+  const fail = (reason: string): never => {
+    throw new Error(`Invalid binary mesh payload: ${reason}`);
+  };
+
+  if (buffer.byteLength < HEADER_BYTES) fail("truncated header");
+  const view = new DataView(buffer);
+  const magic = String.fromCharCode(...new Uint8Array(buffer, 0, 4));
+  if (magic !== MAGIC) fail(`unexpected magic "${magic}"`);
+  const version = view.getUint32(4, true);
+  if (version !== VERSION) fail(`unsupported version ${version}`);
+
+  const meshCount = view.getUint32(8, true);
+  let offset = HEADER_BYTES + meshCount * TABLE_ENTRY_BYTES;
+  if (offset > buffer.byteLength) fail("truncated mesh table");
+
+  // Reads `length` 4-byte values starting at the cursor and advances it
+  const take = <T extends Float32Array | Uint32Array>(ArrayType: new (b: ArrayBuffer, o: number, l: number) => T, length: number): T => {
+    if (offset + length * 4 > buffer.byteLength) fail("truncated mesh data");
+    const array = new ArrayType(buffer, offset, length);
+    offset += length * 4;
+    return array;
+  };
+
+  const geometries: GeneratedGeometry[] = [];
+  for (let i = 0; i < meshCount; i++) {
+    const entry = HEADER_BYTES + i * TABLE_ENTRY_BYTES;
+    const vertexCount = view.getUint32(entry, true);
+    const indexCount = view.getUint32(entry + 4, true);
+    const flags = view.getUint32(entry + 8, true);
+
+    const vertices = take(Float32Array, vertexCount * 3);
+    const faces = take(Uint32Array, indexCount);
+    const colors = flags & FLAG_COLORS ? take(Float32Array, vertexCount * 3) : undefined;
+    const uvs = flags & FLAG_UVS ? take(Float32Array, vertexCount * 2) : undefined;
+    geometries.push({ vertices, faces, colors, uvs });
+  }
+  return geometries;
+};
+
+// The same layout the other way, used to upload a mesh (e.g. the variation being refined)
+export const encodeMeshBinary = (geometries: GeneratedGeometry[]): ArrayBuffer => {
+  // Colours and UVs are only sent when there is one per vertex
+  const meshes = geometries.map(({ vertices, faces, colors, uvs }) => ({
+    vertices,
+    faces,
+    colors: colors?.length && colors.length === vertices.length ? colors : undefined,
+    uvs: uvs?.length && uvs.length === (vertices.length / 3) * 2 ? uvs : undefined,
+  }));
+  const bodyValues = meshes.reduce(
+    (total, mesh) => total + mesh.vertices.length + mesh.faces.length + (mesh.colors?.length ?? 0) + (mesh.uvs?.length ?? 0),
+    0,
+  );
+  const buffer = new ArrayBuffer(HEADER_BYTES + meshes.length * TABLE_ENTRY_BYTES + bodyValues * 4);
+  const view = new DataView(buffer);
+  new Uint8Array(buffer, 0, 4).set(Array.from(MAGIC, (char) => char.charCodeAt(0)));
+  view.setUint32(4, VERSION, true);
+  view.setUint32(8, meshes.length, true);
+
+  let offset = HEADER_BYTES + meshes.length * TABLE_ENTRY_BYTES;
+  const put = <T extends Float32Array | Uint32Array>(ArrayType: new (b: ArrayBuffer, o: number, l: number) => T, values: ArrayLike<number>) => {
+    new ArrayType(buffer, offset, values.length).set(values);
+    offset += values.length * 4;
+  };
+
+  meshes.forEach(({ vertices, faces, colors, uvs }, i) => {
+    const entry = HEADER_BYTES + i * TABLE_ENTRY_BYTES;
+    view.setUint32(entry, vertices.length / 3, true);
+    view.setUint32(entry + 4, faces.length, true);
+    view.setUint32(entry + 8, (colors ? FLAG_COLORS : 0) | (uvs ? FLAG_UVS : 0), true);
+    put(Float32Array, vertices);
+    put(Uint32Array, faces);
+    if (colors) put(Float32Array, colors);
+    if (uvs) put(Float32Array, uvs);
+  });
+  return buffer;
+};
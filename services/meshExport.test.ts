@@ -0,0 +1,211 @@
+import { strFromU8, unzipSync } from 'three/examples/jsm/libs/fflate.module.js';
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_EXPORT_SETTINGS } from '../constants';
+import { export3MF, exportPLY, exportSTL, exportUSDZ, objFiles } from './meshExport';
+
+const tetrahedron = {
+  vertices: new Float32Array([0, 0, 0, 1, 0, 0, 0, 1, 0, 0, 0, 1]),
+  faces: new Uint32Array([0, 2, 1, 0, 1, 3, 0, 3, 2, 1, 2, 3]),
+};
+
+const bytesOf = async (blob: Blob) => new DataView(await blob.arrayBuffer());
+
+describe('binary STL', () => {
+  it('writes an 80-byte header, the triangle count and 50 bytes per triangle', async () => {
+    const view = await bytesOf(exportSTL(tetrahedron, 'binary', DEFAULT_EXPORT_SETTINGS));
+
+    expect(view.byteLength).toBe(84 + 4 * 50);
+    const header = new TextDecoder().decode(new Uint8Array(view.buffer, 0, 80)).replace(/\0+$/, '');
+    expect(header).toBe('Binary STL generated by Sketch-to-3D Mesh AI. Units: mm, Z-up');
+    expect(view.getUint32(80, true)).toBe(4);
+  });
+
+  it('stores each triangle as its unit normal, three corners and a zero attribute', async () => {
+    const view = await bytesOf(exportSTL(tetrahedron, 'binary', DEFAULT_EXPORT_SETTINGS));
+    const floats = (offset: number, count: number) =>
+      Array.from({ length: count }, (_, i) => view.getFloat32(offset + i * 4, true));
+
+    // First triangle (0, 2, 1) lies in the Z = 0 plane, facing down
+    expect(floats(84, 3)).toEqual([0, 0, -1]);
+    expect(floats(96, 9)).toEqual([0, 0, 0, 0, 1, 0, 1, 0, 0]);
+    expect(view.getUint16(132, true)).toBe(0);
+    // The last triangle ends the file
+    expect(floats(84 + 3 * 50 + 12, 3)).toEqual([1, 0, 0]);
+    expect(view.getUint16(84 + 3 * 50 + 48, true)).toBe(0);
+  });
+
+  it('scales to the export settings and records the unit', async () => {
+    const view = await bytesOf(exportSTL(tetrahedron, 'binary', { ...DEFAULT_EXPORT_SETTINGS, unit: 'in', sizing: 'height', targetSize: 2 }));
+    const header = new TextDecoder().decode(new Uint8Array(view.buffer, 0, 80));
+
+    expect(header).toContain('Units: in, Z-up');
+    // The second triangle's third corner is the apex at (0, 0, 1), now 2 inches up
+    expect(view.getFloat32(84 + 50 + 12 + 2 * 12 + 8, true)).toBe(2);
+  });
+});
+
+// The header ends at the first "end_header" line; the body follows it directly
+const splitPly = async (blob: Blob) => {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  const marker = 'end_header\n';
+  const text = new TextDecoder().decode(bytes);
+  const headerLength = new TextEncoder().encode(text.slice(0, text.indexOf(marker) + marker.length)).length;
+  return {
+    header: text.slice(0, text.indexOf(marker)).trim().split('\n'),
+    body: new DataView(bytes.buffer, headerLength),
+    text: text.slice(text.indexOf(marker) + marker.length),
+  };
+};
+
+describe('PLY', () => {
+  // 0.2158 linear is sRGB byte 128, the middle grey of the sketch
+  const colored = { ...tetrahedron, colors: new Float32Array([1, 0, 0, 0, 1, 0, 0, 0, 1, 0.2158, 0.2158, 0.2158]) };
+
+  it('declares the vertex and face elements in the header', async () => {
+    const { header } = await splitPly(exportPLY(colored, 'binary', DEFAULT_EXPORT_SETTINGS));
+
+    expect(header).toEqual([
+      'ply',
+      'format binary_little_endian 1.0',
+      'comment Generated by Sketch-to-3D Mesh AI',
+      'comment Units: mm, Z-up',
+      'element vertex 4',
+      'property float x',
+      'property float y',
+      'property float z',
+      'property uchar red',
+      'property uchar green',
+      'property uchar blue',
+      'element face 4',
+      'property list uchar int vertex_indices',
+    ]);
+  });
+
+  it('writes 15 bytes per coloured vertex and 13 per triangle in binary', async () => {
+    const { body } = await splitPly(exportPLY(colored, 'binary', DEFAULT_EXPORT_SETTINGS));
+
+    expect(body.byteLength).toBe(4 * 15 + 4 * 13);
+    // Last vertex: position, then its colour as sRGB bytes
+    expect([0, 4, 8].map((offset) => body.getFloat32(3 * 15 + offset, true))).toEqual([0, 0, 1]);
+    expect([12, 13, 14].map((offset) => body.getUint8(3 * 15 + offset))).toEqual([128, 128, 128]);
+    // First face: a count of 3, then the indices as int32
+    const face = 4 * 15;
+    expect(body.getUint8(face)).toBe(3);
+    expect([1, 5, 9].map((offset) => body.getInt32(face + offset, true))).toEqual([0, 2, 1]);
+  });
+
+  it('leaves out colour properties when the mesh has none', async () => {
+    const { header, body } = await splitPly(exportPLY(tetrahedron, 'binary', DEFAULT_EXPORT_SETTINGS));
+
+    expect(header).not.toContain('property uchar red');
+    expect(body.byteLength).toBe(4 * 12 + 4 * 13);
+  });
+
+  it('writes one line per vertex and per face in ASCII', async () => {
+    const { header, text } = await splitPly(exportPLY(colored, 'ascii', DEFAULT_EXPORT_SETTINGS));
+    const lines = text.trim().split('\n');
+
+    expect(header[1]).toBe('format ascii 1.0');
+    expect(lines).toHaveLength(8);
+    expect(lines[0]).toBe('0.000000 0.000000 0.000000 255 0 0');
+    expect(lines[3]).toBe('0.000000 0.000000 1.000000 128 128 128');
+    expect(lines[4]).toBe('3 0 2 1');
+  });
+});
+
+describe('USDZ', () => {
+  // The mesh's points, as written in its geometry layer
+  const usdPoints = async (blob: Blob) => {
+    const files = unzipSync(new Uint8Array(await blob.arrayBuffer()));
+    const geometry = Object.keys(files).find((name) => name.startsWith('geometries/'))!;
+    const points = strFromU8(files[geometry]).match(/point3f\[\] points = \[(.*)\]/)![1];
+    return points.match(/-?\d+\.\d+/g)!.map(Number);
+  };
+
+  it('keeps one metre per model unit at the generated size', async () => {
+    const points = await usdPoints(await exportUSDZ(tetrahedron, false, DEFAULT_EXPORT_SETTINGS));
+    // Turned Y-up: the apex at Z = 1 is now 1 m up
+    expect(points.slice(9)).toEqual([0, 1, 0]);
+  });
+
+  it('converts a chosen size to metres', async () => {
+    const settings = { ...DEFAULT_EXPORT_SETTINGS, sizing: 'height' as const, targetSize: 50 };
+    const points = await usdPoints(await exportUSDZ(tetrahedron, false, settings));
+    expect(points.slice(9)).toEqual([0, 0.05, 0]);
+  });
+});
+
+describe('OBJ', () => {
+  const textured = {
+    ...tetrahedron,
+    colors: new Float32Array([1, 0, 0, 0, 1, 0, 0, 0, 1, 1, 1, 1]),
+    uvs: new Float32Array([0, 0, 1, 0, 0, 1, 0.5, 0.5]),
+  };
+  const linesOf = (files: Record<string, Uint8Array>, name: string) => strFromU8(files[name]).trim().split('\n');
+
+  it('writes coloured vertices, UVs and normals and indexes them together', () => {
+    const obj = linesOf(objFiles(textured, 'model_1', DEFAULT_EXPORT_SETTINGS), 'model_1.obj');
+
+    expect(obj.slice(0, 4)).toEqual(['# Generated by Sketch-to-3D Mesh AI', '# Units: mm, Z-up', 'mtllib model_1.mtl', 'o model_1']);
+    expect(obj.filter((line) => line.startsWith('v '))).toEqual([
+      'v 0.000000 0.000000 0.000000 1.000000 0.000000 0.000000',
+      'v 1.000000 0.000000 0.000000 0.000000 1.000000 0.000000',
+      'v 0.000000 1.000000 0.000000 0.000000 0.000000 1.000000',
+      'v 0.000000 0.000000 1.000000 1.000000 1.000000 1.000000',
+    ]);
+    expect(obj.filter((line) => line.startsWith('vt '))).toHaveLength(4);
+    expect(obj.filter((line) => line.startsWith('vn '))).toHaveLength(4);
+    expect(obj).toContain('usemtl model_1');
+    expect(obj.filter((line) => line.startsWith('f '))).toEqual([
+      'f 1/1/1 3/3/3 2/2/2',
+      'f 1/1/1 2/2/2 4/4/4',
+      'f 1/1/1 4/4/4 3/3/3',
+      'f 2/2/2 3/3/3 4/4/4',
+    ]);
+  });
+
+  it('leaves the UV slot empty and the colours out when the mesh has none', () => {
+    const obj = linesOf(objFiles(tetrahedron, 'plain', DEFAULT_EXPORT_SETTINGS), 'plain.obj');
+
+    expect(obj).toContain('v 0.000000 0.000000 1.000000');
+    expect(obj.some((line) => line.startsWith('vt '))).toBe(false);
+    expect(obj).toContain('f 1//1 3//3 2//2');
+  });
+
+  it('defines the referenced material in the MTL', () => {
+    const mtl = linesOf(objFiles(tetrahedron, 'model_1', DEFAULT_EXPORT_SETTINGS), 'model_1.mtl');
+
+    expect(mtl).toContain('newmtl model_1');
+    expect(mtl).toContain('Kd 1.000000 1.000000 1.000000');
+  });
+});
+
+describe('3MF', () => {
+  const modelXml = async (blob: Blob) => strFromU8(unzipSync(new Uint8Array(await blob.arrayBuffer()))['3D/3dmodel.model']);
+
+  it('records the export unit on the model', async () => {
+    expect(await modelXml(export3MF(tetrahedron, 'model_1', DEFAULT_EXPORT_SETTINGS))).toContain('<model unit="millimeter"');
+    expect(await modelXml(export3MF(tetrahedron, 'model_1', { ...DEFAULT_EXPORT_SETTINGS, unit: 'in' }))).toContain('<model unit="inch"');
+  });
+
+  it('colours each triangle with the average of its vertex colours', async () => {
+    // Three red corners and a white apex: the base stays red, the sides average to pink
+    const colored = { ...tetrahedron, colors: new Float32Array([1, 0, 0, 1, 0, 0, 1, 0, 0, 1, 1, 1]) };
+    const xml = await modelXml(export3MF(colored, 'model_1', DEFAULT_EXPORT_SETTINGS));
+
+    expect(xml.match(/<m:color color="#[0-9A-F]{6}"\/>/g)).toEqual(['<m:color color="#FF0000"/>', '<m:color color="#FF9C9C"/>']);
+    expect(xml.match(/<triangle [^>]*\/>/g)).toEqual([
+      '<triangle v1="0" v2="2" v3="1" pid="2" p1="0"/>',
+      '<triangle v1="0" v2="1" v3="3" pid="2" p1="1"/>',
+      '<triangle v1="0" v2="3" v3="2" pid="2" p1="1"/>',
+      '<triangle v1="1" v2="2" v3="3" pid="2" p1="1"/>',
+    ]);
+  });
+
+  it('exports a mesh without colours plain', async () => {
+    const xml = await modelXml(export3MF(tetrahedron, 'model_1', DEFAULT_EXPORT_SETTINGS));
+
+    expect(xml).not.toContain('colorgroup');
+    expect(xml).toContain('<triangle v1="0" v2="2" v3="1"/>');
+  });
+});
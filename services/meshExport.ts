@@ -0,0 +1,447 @@
+import * as THREE from 'three';
+import { GLTFExporter } from 'three/examples/jsm/exporters/GLTFExporter.js';
+import { USDZExporter } from 'three/examples/jsm/exporters/USDZExporter.js';
+import { strToU8, zipSync } from 'three/examples/jsm/libs/fflate.module.js';
+import type { ExportSettings, GeneratedGeometry, GltfFormat, LengthUnit, PlyFormat, StlFormat, UpAxis } from '../types';
+import { exportScale, metricExportScale, placeForExport } from './exportSettings';
+import { modelMaterialParams, toBufferGeometry } from './meshUtils';
+
+// Hands a generated file to the browser as a download
+export const saveFile = (blob: Blob, filename: string) => {
+  const link = document.createElement('a');
+  link.style.display = 'none';
+  document.body.appendChild(link);
+  link.href = URL.createObjectURL(blob);
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(link.href);
+  document.body.removeChild(link);
+};
+
+// Vertex colours are linear 0-1 floats, as three.js renders them; file formats expect sRGB
+const linearToSrgb = (value: number) => {
+  const linear = Math.min(1, Math.max(0, value));
+  return linear <= 0.0031308 ? linear * 12.92 : 1.055 * linear ** (1 / 2.4) - 0.055;
+};
+
+/**
+ * The geometry as a file should hold it: sized in the chosen unit (or metres, for glTF and
+ * USD) and turned to the format's up axis.
+ */
+const prepareForExport = (geometry: GeneratedGeometry, settings: ExportSettings, upAxis: UpAxis, inMetres = false) =>
+  placeForExport(geometry, inMetres ? metricExportScale(geometry, settings) : exportScale(geometry, settings), upAxis);
+
+// Recorded in the formats that can only carry it as a comment
+const unitsComment = ({ unit, upAxis }: ExportSettings) => `Units: ${unit}, ${upAxis.toUpperCase()}-up`;
+
+const formatFloats = (values: ArrayLike<number>, start: number, count: number) =>
+  Array.from({ length: count }, (_, i) => values[start + i].toFixed(6)).join(' ');
+
+// The viewer's clay material in MTL terms; glossier surfaces get a higher specular exponent
+const objMaterial = (name: string) => {
+  const { roughness, metalness } = modelMaterialParams(false);
+  const specular = metalness.toFixed(6);
+  return [
+    '# Generated by Sketch-to-3D Mesh AI',
+    `newmtl ${name}`,
+    'Ka 0.000000 0.000000 0.000000',
+    'Kd 1.000000 1.000000 1.000000',
+    `Ks ${specular} ${specular} ${specular}`,
+    `Ns ${((1 - roughness) ** 2 * 1000).toFixed(6)}`,
+    'd 1.000000',
+    'illum 2',
+  ].join('\n') + '\n';
+};
+
+/**
+ * `<name>.obj` and its `<name>.mtl`. Every vertex gets a `vn` normal and, when the mesh has
+ * them, a `vt` UV at the same index, so faces read `f v/vt/vn`. Vertex colours use the
+ * widespread `v x y z r g b` extension (sRGB, 0-1).
+ */
+export const objFiles = (source: GeneratedGeometry, name: string, settings: ExportSettings): Record<string, Uint8Array> => {
+  const geometry = prepareForExport(source, settings, settings.upAxis);
+  const { vertices, faces, colors, uvs } = geometry;
+  const normals = toBufferGeometry(geometry).getAttribute('normal').array;
+  const hasColors = !!colors && colors.length === vertices.length;
+  const hasUvs = !!uvs && uvs.length === (vertices.length / 3) * 2;
+  const vertexCount = vertices.length / 3;
+
+  const lines = ['# Generated by Sketch-to-3D Mesh AI', `# ${unitsComment(settings)}`, `mtllib ${name}.mtl`, `o ${name}`];
+  for (let i = 0; i < vertexCount; i++) {
+    const position = formatFloats(vertices, i * 3, 3);
+    lines.push(hasColors
+      ? `v ${position} ${Array.from({ length: 3 }, (_, c) => linearToSrgb(colors[i * 3 + c]).toFixed(6)).join(' ')}`
+      : `v ${position}`);
+  }
+  if (hasUvs) {
+    for (let i = 0; i < vertexCount; i++) lines.push(`vt ${formatFloats(uvs, i * 2, 2)}`);
+  }
+  for (let i = 0; i < vertexCount; i++) lines.push(`vn ${formatFloats(normals, i * 3, 3)}`);
+
+  lines.push(`usemtl ${name}`, 's 1');
+  const corner = (index: number) => `${index + 1}/${hasUvs ? index + 1 : ''}/${index + 1}`;
+  for (let i = 0; i + 2 < faces.length; i += 3) {
+    lines.push(`f ${corner(faces[i])} ${corner(faces[i + 1])} ${corner(faces[i + 2])}`);
+  }
+
+  return {
+    [`${name}.obj`]: strToU8(lines.join('\n') + '\n'),
+    [`${name}.mtl`]: strToU8(objMaterial(name)),
+  };
+};
+
+// The OBJ and its MTL zipped together, so they download as one file
+export const exportOBJ = (geometry: GeneratedGeometry, name: string, settings: ExportSettings): Blob =>
+  new Blob([zipSync(objFiles(geometry, name, settings))], { type: 'application/zip' });
+
+// Calls `visit` with each triangle's unit normal (zero for degenerate ones) and its three corners
+const forEachTriangle = (
+  { vertices, faces }: GeneratedGeometry,
+  visit: (normal: number[], corners: number[][]) => void,
+) => {
+  const corner = (index: number) => [vertices[index * 3], vertices[index * 3 + 1], vertices[index * 3 + 2]];
+  for (let i = 0; i + 2 < faces.length; i += 3) {
+    const [a, b, c] = [corner(faces[i]), corner(faces[i + 1]), corner(faces[i + 2])];
+    const u = [b[0] - a[0], b[1] - a[1], b[2] - a[2]];
+    const v = [c[0] - a[0], c[1] - a[1], c[2] - a[2]];
+    const n = [u[1] * v[2] - u[2] * v[1], u[2] * v[0] - u[0] * v[2], u[0] * v[1] - u[1] * v[0]];
+    const length = Math.hypot(n[0], n[1], n[2]) || 1;
+    visit([n[0] / length, n[1] / length, n[2] / length], [a, b, c]);
+  }
+};
+
+const stlAscii = (geometry: GeneratedGeometry): Blob => {
+  const format = (values: number[]) => values.map((value) => value.toFixed(6)).join(' ');
+  const lines = ['solid model'];
+  forEachTriangle(geometry, (normal, corners) => {
+    lines.push(`  facet normal ${format(normal)}`, '    outer loop');
+    for (const corner of corners) lines.push(`      vertex ${format(corner)}`);
+    lines.push('    endloop', '  endfacet');
+  });
+  lines.push('endsolid model');
+  return new Blob([lines.join('\n') + '\n'], { type: 'text/plain' });
+};
+
+// 80-byte header, uint32 triangle count, then 50 bytes per triangle: normal, three corners, uint16 attributes
+const STL_HEADER_BYTES = 84;
+const STL_TRIANGLE_BYTES = 50;
+
+const stlBinary = (geometry: GeneratedGeometry, settings: ExportSettings): Blob => {
+  const triangleCount = Math.floor(geometry.faces.length / 3);
+  const buffer = new ArrayBuffer(STL_HEADER_BYTES + triangleCount * STL_TRIANGLE_BYTES);
+  const view = new DataView(buffer);
+  // The header must not start with "solid", or some readers take the file for ASCII
+  const header = `Binary STL generated by Sketch-to-3D Mesh AI. ${unitsComment(settings)}`;
+  for (let i = 0; i < header.length; i++) view.setUint8(i, header.charCodeAt(i));
+  view.setUint32(80, triangleCount, true);
+
+  let offset = STL_HEADER_BYTES;
+  forEachTriangle(geometry, (normal, corners) => {
+    for (const value of [...normal, ...corners.flat()]) {
+      view.setFloat32(offset, value, true);
+      offset += 4;
+    }
+    offset += 2; // attribute byte count, left at 0
+  });
+  return new Blob([buffer], { type: 'model/stl' });
+};
+
+/**
+ * Binary STL is several times smaller than ASCII and what slicers load fastest; ASCII is
+ * kept for tools that diff or inspect the text.
+ */
+export const exportSTL = (geometry: GeneratedGeometry, format: StlFormat, settings: ExportSettings): Blob => {
+  const placed = prepareForExport(geometry, settings, settings.upAxis);
+  return format === 'binary' ? stlBinary(placed, settings) : stlAscii(placed);
+};
+
+// PLY tools expect 0-255 channels
+const toColorByte = (value: number) => Math.round(linearToSrgb(value) * 255);
+
+/**
+ * PLY with one vertex element (position, plus red/green/blue when the mesh has a colour per
+ * vertex) and one triangle per face. Binary is little-endian.
+ */
+export const exportPLY = (geometry: GeneratedGeometry, format: PlyFormat, settings: ExportSettings): Blob => {
+  const { vertices, faces, colors } = prepareForExport(geometry, settings, settings.upAxis);
+  const vertexCount = vertices.length / 3;
+  const faceCount = Math.floor(faces.length / 3);
+  const hasColors = !!colors && colors.length === vertices.length;
+  const header = [
+    'ply',
+    `format ${format === 'binary' ? 'binary_little_endian' : 'ascii'} 1.0`,
+    'comment Generated by Sketch-to-3D Mesh AI',
+    `comment ${unitsComment(settings)}`,
+    `element vertex ${vertexCount}`,
+    'property float x',
+    'property float y',
+    'property float z',
+    ...(hasColors ? ['property uchar red', 'property uchar green', 'property uchar blue'] : []),
+    `element face ${faceCount}`,
+    'property list uchar int vertex_indices',
+    'end_header',
+  ].join('\n') + '\n';
+
+  if (format === 'ascii') {
+    const lines: string[] = [];
+    for (let i = 0; i < vertexCount; i++) {
+      const position = `${vertices[i * 3].toFixed(6)} ${vertices[i * 3 + 1].toFixed(6)} ${vertices[i * 3 + 2].toFixed(6)}`;
+      lines.push(hasColors
+        ? `${position} ${toColorByte(colors[i * 3])} ${toColorByte(colors[i * 3 + 1])} ${toColorByte(colors[i * 3 + 2])}`
+        : position);
+    }
+    for (let i = 0; i < faceCount; i++) {
+      lines.push(`3 ${faces[i * 3]} ${faces[i * 3 + 1]} ${faces[i * 3 + 2]}`);
+    }
+    return new Blob([header, lines.join('\n') + '\n'], { type: 'text/plain' });
+  }
+
+  const vertexBytes = 12 + (hasColors ? 3 : 0);
+  const buffer = new ArrayBuffer(vertexCount * vertexBytes + faceCount * 13);
+  const view = new DataView(buffer);
+  let offset = 0;
+  for (let i = 0; i < vertexCount; i++) {
+    for (let axis = 0; axis < 3; axis++) {
+      view.setFloat32(offset, vertices[i * 3 + axis], true);
+      offset += 4;
+    }
+    if (hasColors) {
+      for (let channel = 0; channel < 3; channel++) view.setUint8(offset++, toColorByte(colors[i * 3 + channel]));
+    }
+  }
+  for (let i = 0; i < faceCount; i++) {
+    view.setUint8(offset++, 3);
+    for (let corner = 0; corner < 3; corner++) {
+      view.setInt32(offset, faces[i * 3 + corner], true);
+      offset += 4;
+    }
+  }
+  return new Blob([header, buffer], { type: 'application/octet-stream' });
+};
+
+const THREE_MF_UNITS: Record<LengthUnit, string> = {
+  mm: 'millimeter',
+  cm: 'centimeter',
+  in: 'inch',
+};
+
+const THREE_MF_CONTENT_TYPES = `<?xml version="1.0" encoding="UTF-8"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+  <Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+  <Default Extension="model" ContentType="application/vnd.ms-package.3dmanufacturing-3dmodel+xml"/>
+</Types>
+`;
+
+const THREE_MF_RELS = `<?xml version="1.0" encoding="UTF-8"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+  <Relationship Target="/3D/3dmodel.model" Id="rel0" Type="http://schemas.microsoft.com/3dmanufacturing/2013/01/3dmodel"/>
+</Relationships>
+`;
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+/**
+ * A 3MF package (zipped XML) for colour printers. Each triangle gets the average of its
+ * vertex colours from a material-extension colour group; meshes without colours export
+ * plain. 3MF is always Z-up, and the build item lifts the model onto the plate.
+ */
+export const export3MF = (geometry: GeneratedGeometry, name: string, settings: ExportSettings): Blob => {
+  const { vertices, faces, colors } = prepareForExport(geometry, settings, 'z');
+  const vertexCount = vertices.length / 3;
+  const hasColors = !!colors && colors.length === vertices.length;
+  const min = [Infinity, Infinity, Infinity];
+  const vertexLines: string[] = [];
+  for (let i = 0; i < vertexCount; i++) {
+    const [x, y, z] = [vertices[i * 3], vertices[i * 3 + 1], vertices[i * 3 + 2]];
+    for (let axis = 0; axis < 3; axis++) min[axis] = Math.min(min[axis], vertices[i * 3 + axis]);
+    vertexLines.push(`          <vertex x="${x.toFixed(6)}" y="${y.toFixed(6)}" z="${z.toFixed(6)}"/>`);
+  }
+
+  // Identical colours share one entry of the colour group
+  const palette = new Map<string, number>();
+  const triangleColor = (a: number, b: number, c: number) => {
+    const hex = [0, 1, 2]
+      .map((channel) => (colors![a * 3 + channel] + colors![b * 3 + channel] + colors![c * 3 + channel]) / 3)
+      .map((value) => Math.round(linearToSrgb(value) * 255).toString(16).padStart(2, '0'))
+      .join('')
+      .toUpperCase();
+    if (!palette.has(hex)) palette.set(hex, palette.size);
+    return palette.get(hex)!;
+  };
+
+  const triangleLines: string[] = [];
+  for (let i = 0; i + 2 < faces.length; i += 3) {
+    const [a, b, c] = [faces[i], faces[i + 1], faces[i + 2]];
+    const color = hasColors ? ` pid="2" p1="${triangleColor(a, b, c)}"` : '';
+    triangleLines.push(`          <triangle v1="${a}" v2="${b}" v3="${c}"${color}/>`);
+  }
+
+  const colorGroup = hasColors
+    ? [
+        '    <m:colorgroup id="2">',
+        ...[...palette.keys()].map((hex) => `      <m:color color="#${hex}"/>`),
+        '    </m:colorgroup>',
+      ]
+    : [];
+  const lift = vertexCount > 0 ? min.map((value) => (-value).toFixed(6)).join(' ') : '0 0 0';
+  const model = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<model unit="${THREE_MF_UNITS[settings.unit]}" xml:lang="en-US" xmlns="http://schemas.microsoft.com/3dmanufacturing/core/2015/02" xmlns:m="http://schemas.microsoft.com/3dmanufacturing/material/2015/02">`,
+    `  <metadata name="Title">${escapeXml(name)}</metadata>`,
+    '  <metadata name="Application">Sketch-to-3D Mesh AI</metadata>',
+    `  <metadata name="CreationDate">${new Date().toISOString().slice(0, 10)}</metadata>`,
+    '  <resources>',
+    ...colorGroup,
+    `    <object id="1" name="${escapeXml(name)}" type="model"${hasColors ? ' pid="2" pindex="0"' : ''}>`,
+    '      <mesh>',
+    '        <vertices>',
+    ...vertexLines,
+    '        </vertices>',
+    '        <triangles>',
+    ...triangleLines,
+    '        </triangles>',
+    '      </mesh>',
+    '    </object>',
+    '  </resources>',
+    '  <build>',
+    `    <item objectid="1" transform="1 0 0 0 1 0 0 0 1 ${lift}"/>`,
+    '  </build>',
+    '</model>',
+  ].join('\n') + '\n';
+
+  const archive = zipSync({
+    '[Content_Types].xml': strToU8(THREE_MF_CONTENT_TYPES),
+    '_rels/.rels': strToU8(THREE_MF_RELS),
+    '3D/3dmodel.model': strToU8(model),
+  });
+  return new Blob([archive], { type: 'model/3mf' });
+};
+
+/**
+ * glTF is Y-up and in metres whatever the export settings say, so the model always opens
+ * upright and at its real size. Normals, vertex colours and UVs go along whenever the mesh
+ * has them; the material is the viewer's, using the colours only while they are shown
+ * (wireframe has no glTF equivalent).
+ */
+export const exportGLTF = async (
+  geometry: GeneratedGeometry,
+  format: GltfFormat,
+  showColors: boolean,
+  settings: ExportSettings,
+): Promise<Blob> => {
+  const geo = toBufferGeometry(prepareForExport(geometry, settings, 'y', true));
+  const material = new THREE.MeshStandardMaterial(modelMaterialParams(showColors && geo.hasAttribute('color')));
+  const mesh = new THREE.Mesh(geo, material);
+  mesh.name = 'model';
+  // A plain Object3D root keeps the exporter's typings happy alongside the XR pointer-event augmentation
+  const root = new THREE.Object3D();
+  root.add(mesh);
+  try {
+    const result = await new GLTFExporter().parseAsync(root, { binary: format === 'glb' });
+    return format === 'glb'
+      ? new Blob([result as ArrayBuffer], { type: 'model/gltf-binary' })
+      : new Blob([JSON.stringify(result)], { type: 'model/gltf+json' });
+  } finally {
+    geo.dispose();
+    material.dispose();
+  }
+};
+
+
+// Colours are snapped to 6 bits a channel, so even a fully coloured mesh fits a 512×512 palette
+const USDZ_COLOR_LEVELS = 64;
+
+/**
+ * AR Quick Look ignores USD display colours once a material is bound, so vertex colours are
+ * baked into a small palette texture: each triangle is split off and all three of its corners
+ * sample the texel of its average colour.
+ */
+const bakeVertexColors = (indexed: THREE.BufferGeometry): { geo: THREE.BufferGeometry; texture: THREE.CanvasTexture } => {
+  const geo = indexed.toNonIndexed();
+  const colors = geo.getAttribute('color');
+  const palette = new Map<number, number>();
+  const triangleColors: number[] = [];
+  for (let i = 0; i < colors.count; i += 3) {
+    let key = 0;
+    for (let channel = 0; channel < 3; channel++) {
+      const average = (colors.getComponent(i, channel) + colors.getComponent(i + 1, channel) + colors.getComponent(i + 2, channel)) / 3;
+      key = key * USDZ_COLOR_LEVELS + Math.round(linearToSrgb(average) * (USDZ_COLOR_LEVELS - 1));
+    }
+    if (!palette.has(key)) palette.set(key, palette.size);
+    triangleColors.push(palette.get(key)!);
+  }
+
+  const size = Math.max(1, Math.ceil(Math.sqrt(palette.size)));
+  const canvas = document.createElement('canvas');
+  canvas.width = size;
+  canvas.height = size;
+  const pixels = new ImageData(size, size);
+  for (const [key, slot] of palette) {
+    for (let channel = 0; channel < 3; channel++) {
+      const level = Math.floor(key / USDZ_COLOR_LEVELS ** (2 - channel)) % USDZ_COLOR_LEVELS;
+      pixels.data[slot * 4 + channel] = Math.round((level / (USDZ_COLOR_LEVELS - 1)) * 255);
+    }
+    pixels.data[slot * 4 + 3] = 255;
+  }
+  canvas.getContext('2d')!.putImageData(pixels, 0, 0);
+
+  // Texel centres, with v counted from the bottom row as three.js does
+  const uvs = new Float32Array(colors.count * 2);
+  triangleColors.forEach((slot, triangle) => {
+    const u = ((slot % size) + 0.5) / size;
+    const v = 1 - (Math.floor(slot / size) + 0.5) / size;
+    for (let corner = 0; corner < 3; corner++) uvs.set([u, v], (triangle * 3 + corner) * 2);
+  });
+  geo.setAttribute('uv', new THREE.BufferAttribute(uvs, 2));
+  geo.deleteAttribute('color');
+
+  const texture = new THREE.CanvasTexture(canvas);
+  texture.colorSpace = THREE.SRGBColorSpace;
+  return { geo, texture };
+};
+
+/**
+ * USDZ for AR Quick Look on iPhone and iPad. Like glTF it is Y-up and in metres, so the model
+ * is placed at its real size, and the material is the viewer's; shown colours are baked into
+ * a texture, as Quick Look renders no vertex colours.
+ */
+export const exportUSDZ = async (geometry: GeneratedGeometry, showColors: boolean, settings: ExportSettings): Promise<Blob> => {
+  const indexed = toBufferGeometry(prepareForExport(geometry, settings, 'y', true));
+  const useColors = showColors && indexed.hasAttribute('color');
+  const { geo, texture } = useColors ? bakeVertexColors(indexed) : { geo: indexed, texture: null };
+  const material = new THREE.MeshStandardMaterial({ ...modelMaterialParams(useColors), vertexColors: false, map: texture });
+  const mesh = new THREE.Mesh(geo, material);
+  mesh.name = 'model';
+  const root = new THREE.Object3D();
+  root.add(mesh);
+  try {
+    const result = await new USDZExporter().parseAsync(root, { quickLookCompatible: true });
+    return new Blob([result], { type: 'model/vnd.usdz+zip' });
+  } finally {
+    indexed.dispose();
+    geo.dispose();
+    texture?.dispose();
+    material.dispose();
+  }
+};
+
+// Safari on iOS and iPadOS marks links that AR Quick Look can open with rel="ar"
+export const supportsQuickLook = () => document.createElement('a').relList.supports('ar');
+
+/**
+ * Opens a USDZ file in AR Quick Look. Safari only hands the link over when it is rel="ar"
+ * and its first child is an image.
+ */
+export const openInQuickLook = (blob: Blob) => {
+  const link = document.createElement('a');
+  link.rel = 'ar';
+  link.style.display = 'none';
+  link.appendChild(document.createElement('img'));
+  document.body.appendChild(link);
+  link.href = URL.createObjectURL(blob);
+  link.click();
+  document.body.removeChild(link);
+  // Quick Look reads the file after the click returns, so the URL outlives it for a while
+  setTimeout(() => URL.revokeObjectURL(link.href), 60_000);
+};
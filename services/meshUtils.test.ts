@@ -0,0 +1,30 @@
+import * as THREE from 'three';
+import { describe, expect, it } from 'vitest';
+import { countEdgeFaults } from './meshValidation';
+import { toGeneratedGeometry } from './meshUtils';
+
+// The shapes the mock backend serves, which all have seams, caps or poles in three.js
+const SHAPES: [string, () => THREE.BufferGeometry][] = [
+  ['icosahedron', () => new THREE.IcosahedronGeometry(1, 4)],
+  ['torus knot', () => new THREE.TorusKnotGeometry(0.6, 0.22, 160, 24)],
+  ['box', () => new THREE.BoxGeometry(1.4, 1.4, 1.4, 4, 4, 4)],
+  ['cone', () => new THREE.ConeGeometry(0.9, 1.8, 48, 8)],
+  ['torus', () => new THREE.TorusGeometry(0.8, 0.3, 32, 64)],
+];
+
+describe('toGeneratedGeometry', () => {
+  it.each(SHAPES)('welds the %s into a closed manifold surface', (_, build) => {
+    const geometry = toGeneratedGeometry(build());
+    expect(geometry.faces.length).toBeGreaterThan(0);
+    expect(countEdgeFaults(geometry.faces)).toEqual({ open: 0, nonManifold: 0 });
+  });
+
+  it('keeps one colour per welded vertex', () => {
+    const geo = new THREE.BoxGeometry(1, 1, 1);
+    geo.setAttribute('color', new THREE.BufferAttribute(new Float32Array(geo.getAttribute('position').count * 3).fill(0.5), 3));
+    const geometry = toGeneratedGeometry(geo);
+    expect(geometry.vertices.length).toBe(8 * 3);
+    expect(geometry.colors).toHaveLength(8 * 3);
+    expect(geometry.uvs).toBeUndefined();
+  });
+});
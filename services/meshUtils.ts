@@ -0,0 +1,67 @@
+import * as THREE from 'three';
+import { mergeVertices } from 'three/examples/jsm/utils/BufferGeometryUtils.js';
+import type { GeneratedGeometry } from '../types';
+
+/**
+ * Flattens a three.js geometry into the plain indexed arrays the viewer and exporters expect.
+ * Vertices are welded on position alone, so the duplicated seam, cap and pole vertices of
+ * three.js shapes merge and the surface is closed. Normals and UVs are dropped for that: a
+ * welded seam vertex can't carry both sides' UVs, and the viewer recomputes normals. Triangles
+ * the weld collapses are removed.
+ */
+export const toGeneratedGeometry = (source: THREE.BufferGeometry): GeneratedGeometry => {
+  const stripped = new THREE.BufferGeometry();
+  stripped.setAttribute('position', source.getAttribute('position'));
+  if (source.hasAttribute('color')) stripped.setAttribute('color', source.getAttribute('color'));
+  if (source.index) stripped.setIndex(source.index);
+  const geo = mergeVertices(stripped);
+
+  const position = geo.getAttribute('position');
+  const color = geo.getAttribute('color');
+  const index = geo.index ? Array.from(geo.index.array) : Array.from({ length: position.count }, (_, i) => i);
+  const faces: number[] = [];
+  for (let i = 0; i + 2 < index.length; i += 3) {
+    const [a, b, c] = [index[i], index[i + 1], index[i + 2]];
+    if (a !== b && b !== c && a !== c) faces.push(a, b, c);
+  }
+
+  return {
+    vertices: Array.from(position.array),
+    faces,
+    colors: color ? Array.from(color.array) : undefined,
+  };
+};
+
+// Typed arrays pass through untouched; plain arrays from the JSON path are converted once
+export const toFloat32Array = (values: ArrayLike<number>): Float32Array =>
+  values instanceof Float32Array ? values : Float32Array.from(values);
+
+export const toUint32Array = (values: ArrayLike<number>): Uint32Array =>
+  values instanceof Uint32Array ? values : Uint32Array.from(values);
+
+// The viewer's material: matte for vertex colours, a light clay look otherwise. Exports reuse it.
+export const modelMaterialParams = (useVertexColors: boolean) => ({
+  color: '#FFFFFF',
+  vertexColors: useVertexColors,
+  roughness: useVertexColors ? 0.8 : 0.5,
+  metalness: useVertexColors ? 0.0 : 0.3,
+  envMapIntensity: useVertexColors ? 0.5 : 1.0,
+});
+
+/**
+ * Builds an indexed three.js geometry with normals, plus colours and UVs when there is one
+ * per vertex. Positions are copied, so the result can be transformed freely.
+ */
+export const toBufferGeometry = ({ vertices, faces, colors, uvs }: GeneratedGeometry): THREE.BufferGeometry => {
+  const geo = new THREE.BufferGeometry();
+  geo.setAttribute('position', new THREE.BufferAttribute(Float32Array.from(vertices), 3));
+  if (colors && colors.length === vertices.length) {
+    geo.setAttribute('color', new THREE.BufferAttribute(toFloat32Array(colors), 3));
+  }
+  if (uvs && uvs.length === (vertices.length / 3) * 2) {
+    geo.setAttribute('uv', new THREE.BufferAttribute(toFloat32Array(uvs), 2));
+  }
+  geo.setIndex(new THREE.BufferAttribute(toUint32Array(faces), 1));
+  geo.computeVertexNormals();
+  return geo;
+};
@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import { formatValidationReports, validateGeometries, validateGeometry } from './meshValidation';
+
+// Two triangles over four corners of a unit square
+const square = {
+  vertices: [0, 0, 0, 1, 0, 0, 1, 1, 0, 0, 1, 0],
+  faces: [0, 1, 2, 0, 2, 3],
+};
+
+describe('mesh validation', () => {
+  it('passes a clean mesh through without issues', () => {
+    const { geometry, issues } = validateGeometry({ ...square, colors: new Array(12).fill(0.5), uvs: new Array(8).fill(0) });
+
+    expect(issues).toEqual([]);
+    expect(Array.from(geometry!.vertices)).toEqual(square.vertices);
+    expect(Array.from(geometry!.faces)).toEqual(square.faces);
+    expect(geometry!.colors).toHaveLength(12);
+    expect(geometry!.uvs).toHaveLength(8);
+  });
+
+  it('removes triangles touching NaN or infinite vertices', () => {
+    const vertices = [...square.vertices];
+    vertices[3] = NaN;
+    vertices[10] = Infinity;
+    // Vertices 1 and 3 are broken, so both triangles go; a third over 0, 2 and a new vertex stays
+    const { geometry, issues } = validateGeometry({ vertices: [...vertices, 2, 2, 0], faces: [...square.faces, 0, 2, 4] });
+
+    expect(issues).toEqual(['2 vertices had NaN or infinite coordinates', 'removed 2 triangles touching invalid vertices']);
+    expect(Array.from(geometry!.faces)).toEqual([0, 2, 4]);
+    expect(Array.from(geometry!.vertices.slice(3, 6))).toEqual([0, 0, 0]);
+  });
+
+  it('ignores trailing vertex and index values', () => {
+    const { geometry, issues } = validateGeometry({ vertices: [...square.vertices, 7], faces: [...square.faces, 1, 2] });
+
+    expect(issues).toEqual([
+      'ignored 1 trailing vertex value (vertex array length 13 is not a multiple of 3)',
+      'ignored 2 trailing indices (face array length 8 is not a multiple of 3)',
+    ]);
+    expect(geometry!.vertices).toHaveLength(12);
+    expect(Array.from(geometry!.faces)).toEqual(square.faces);
+  });
+
+  it('removes triangles with out-of-range or non-integer indices', () => {
+    const { geometry, issues } = validateGeometry({ ...square, faces: [...square.faces, 0, 1, 4, -1, 0, 1, 0.5, 1, 2] });
+
+    expect(issues).toEqual(['removed 3 triangles with out-of-range indices']);
+    expect(Array.from(geometry!.faces)).toEqual(square.faces);
+  });
+
+  it('removes degenerate triangles', () => {
+    const { geometry, issues } = validateGeometry({ ...square, faces: [...square.faces, 1, 1, 2] });
+
+    expect(issues).toEqual(['removed 1 degenerate triangle']);
+    expect(Array.from(geometry!.faces)).toEqual(square.faces);
+  });
+
+  it('rescales 0-255 colours to 0-1', () => {
+    const { geometry, issues } = validateGeometry({ ...square, colors: [255, 0, 51, 0, 255, 0, 0, 0, 255, 102, 102, 102] });
+
+    expect(issues).toEqual(['rescaled colours to the 0-1 range (max value was 255)']);
+    expect(Array.from(geometry!.colors!.slice(0, 2))).toEqual([1, 0]);
+    expect(geometry!.colors![2]).toBeCloseTo(0.2, 6);
+    expect(geometry!.colors![9]).toBeCloseTo(0.4, 6);
+  });
+
+  it('drops colours and UVs that are not one per vertex', () => {
+    const { geometry, issues } = validateGeometry({ ...square, colors: [1, 0, 0], uvs: [0, 0, 1, 1] });
+
+    expect(issues).toEqual(['dropped colours (expected 12 values, got 3)', 'dropped UVs (expected 8 finite values, got 4)']);
+    expect(geometry!.colors).toBeUndefined();
+    expect(geometry!.uvs).toBeUndefined();
+    expect(Array.from(geometry!.faces)).toEqual(square.faces);
+  });
+
+  it('drops a variation with nothing usable left and keeps the others', () => {
+    const broken = { vertices: square.vertices, faces: [0, 1, 9, 2, 2, 3] };
+    const { geometries, reports } = validateGeometries([square, broken, { vertices: [], faces: [] }]);
+
+    expect(geometries).toHaveLength(1);
+    expect(reports).toEqual([
+      {
+        index: 1,
+        issues: ['removed 1 triangle with out-of-range indices', 'removed 1 degenerate triangle', 'no valid triangles'],
+        dropped: true,
+      },
+      { index: 2, issues: ['no vertices'], dropped: true },
+    ]);
+    expect(formatValidationReports(reports)).toBe(
+      'Variation 2 was discarded: removed 1 triangle with out-of-range indices; removed 1 degenerate triangle; no valid triangles\n'
+        + 'Variation 3 was discarded: no vertices',
+    );
+  });
+});
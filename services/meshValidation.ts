@@ -0,0 +1,148 @@
+import type { GeneratedGeometry } from '../types';
+
+export interface VariationReport {
+  // Position of the variation in the backend response
+  index: number;
+  issues: string[];
+  // True when nothing usable was left and the variation was removed
+  dropped: boolean;
+}
+
+export interface ValidationResult {
+  geometries: GeneratedGeometry[];
+  reports: VariationReport[];
+}
+
+const plural = (count: number, noun: string, nouns = `${noun}s`) => `${count.toLocaleString()} ${count === 1 ? noun : nouns}`;
+
+/**
+ * Checks one backend mesh and repairs what can be repaired: stray trailing values are
+ * ignored, triangles with bad indices or non-finite corners are removed, and colour or
+ * UV arrays of the wrong size are dropped. Returns null geometry when nothing is left.
+ */
+export const validateGeometry = (geometry: GeneratedGeometry): { geometry: GeneratedGeometry | null; issues: string[] } => {
+  const issues: string[] = [];
+  const { vertices, faces, colors, uvs } = geometry;
+
+  if (vertices.length % 3 !== 0) {
+    issues.push(`ignored ${plural(vertices.length % 3, 'trailing vertex value')} (vertex array length ${vertices.length} is not a multiple of 3)`);
+  }
+  const vertexCount = Math.floor(vertices.length / 3);
+  if (vertexCount === 0) {
+    return { geometry: null, issues: [...issues, "no vertices"] };
+  }
+
+  // Vertices with a NaN or infinite coordinate are zeroed and may not be used by any triangle
+  const positions = new Float32Array(vertexCount * 3);
+  const badVertex = new Uint8Array(vertexCount);
+  let badVertexCount = 0;
+  for (let v = 0; v < vertexCount; v++) {
+    const x = vertices[v * 3], y = vertices[v * 3 + 1], z = vertices[v * 3 + 2];
+    if (Number.isFinite(x) && Number.isFinite(y) && Number.isFinite(z)) {
+      positions[v * 3] = x;
+      positions[v * 3 + 1] = y;
+      positions[v * 3 + 2] = z;
+    } else {
+      badVertex[v] = 1;
+      badVertexCount++;
+    }
+  }
+  if (badVertexCount > 0) {
+    issues.push(`${plural(badVertexCount, 'vertex', 'vertices')} had NaN or infinite coordinates`);
+  }
+
+  if (faces.length % 3 !== 0) {
+    issues.push(`ignored ${plural(faces.length % 3, 'trailing index', 'trailing indices')} (face array length ${faces.length} is not a multiple of 3)`);
+  }
+  const indices: number[] = [];
+  let outOfRange = 0;
+  let onBadVertex = 0;
+  let degenerate = 0;
+  for (let f = 0; f + 2 < faces.length; f += 3) {
+    const a = faces[f], b = faces[f + 1], c = faces[f + 2];
+    const inRange = [a, b, c].every((i) => Number.isInteger(i) && i >= 0 && i < vertexCount);
+    if (!inRange) outOfRange++;
+    else if (badVertex[a] || badVertex[b] || badVertex[c]) onBadVertex++;
+    else if (a === b || b === c || a === c) degenerate++;
+    else indices.push(a, b, c);
+  }
+  if (outOfRange > 0) issues.push(`removed ${plural(outOfRange, 'triangle')} with out-of-range indices`);
+  if (onBadVertex > 0) issues.push(`removed ${plural(onBadVertex, 'triangle')} touching invalid vertices`);
+  if (degenerate > 0) issues.push(`removed ${plural(degenerate, 'degenerate triangle')}`);
+  if (indices.length === 0) {
+    return { geometry: null, issues: [...issues, "no valid triangles"] };
+  }
+
+  let validColors: Float32Array | undefined;
+  if (colors && colors.length > 0) {
+    if (colors.length !== vertexCount * 3) {
+      issues.push(`dropped colours (expected ${vertexCount * 3} values, got ${colors.length})`);
+    } else if (!Array.prototype.every.call(colors, Number.isFinite)) {
+      issues.push("dropped colours containing NaN or infinite values");
+    } else {
+      validColors = Float32Array.from(colors);
+      // Some exporters send 0-255 channels; the viewer expects 0-1
+      const max = validColors.reduce((m, c) => Math.max(m, c), 0);
+      if (max > 1) {
+        const scale = max <= 255 ? 1 / 255 : 1 / max;
+        validColors = validColors.map((c) => Math.min(1, Math.max(0, c * scale)));
+        issues.push(`rescaled colours to the 0-1 range (max value was ${max})`);
+      } else {
+        validColors = validColors.map((c) => Math.max(0, c));
+      }
+    }
+  }
+
+  let validUvs: Float32Array | undefined;
+  if (uvs && uvs.length > 0) {
+    if (uvs.length !== vertexCount * 2 || !Array.prototype.every.call(uvs, Number.isFinite)) {
+      issues.push(`dropped UVs (expected ${vertexCount * 2} finite values, got ${uvs.length})`);
+    } else {
+      validUvs = Float32Array.from(uvs);
+    }
+  }
+
+  return {
+    geometry: { vertices: positions, faces: Uint32Array.from(indices), colors: validColors, uvs: validUvs, meta: geometry.meta },
+    issues,
+  };
+};
+
+/**
+ * Edges by how many triangles share them: a closed, manifold surface has every edge in
+ * exactly two. Open edges border a hole; non-manifold ones are shared by three or more.
+ */
+export const countEdgeFaults = (faces: ArrayLike<number>): { open: number; nonManifold: number } => {
+  const edgeFaces = new Map<string, number>();
+  for (let f = 0; f + 2 < faces.length; f += 3) {
+    for (let corner = 0; corner < 3; corner++) {
+      const a = faces[f + corner], b = faces[f + ((corner + 1) % 3)];
+      const key = a < b ? `${a}:${b}` : `${b}:${a}`;
+      edgeFaces.set(key, (edgeFaces.get(key) ?? 0) + 1);
+    }
+  }
+  let open = 0, nonManifold = 0;
+  for (const count of edgeFaces.values()) {
+    if (count === 1) open++;
+    else if (count > 2) nonManifold++;
+  }
+  return { open, nonManifold };
+};
+
+export const validateGeometries = (geometries: GeneratedGeometry[]): ValidationResult => {
+  const valid: GeneratedGeometry[] = [];
+  const reports: VariationReport[] = [];
+  geometries.forEach((candidate, index) => {
+    const { geometry, issues } = validateGeometry(candidate);
+    if (geometry) valid.push(geometry);
+    if (issues.length > 0) reports.push({ index, issues, dropped: !geometry });
+  });
+  return { geometries: valid, reports };
+};
+
+// One line per affected variation, e.g. "Variation 2: removed 3 triangles with out-of-range indices"
+export const formatValidationReports = (reports: VariationReport[]): string =>
+  reports
+    .map(({ index, issues, dropped }) =>
+      `Variation ${index + 1}${dropped ? ' was discarded' : ''}: ${issues.join('; ')}`)
+    .join('\n');
@@ -0,0 +1,211 @@
+import * as THREE from 'three';
+import type {
+  GeneratedGeometry,
+  GenerationBackend,
+  GenerationRequest,
+  JobStatusPayload,
+  PipelineStageKey,
+  VariationStatusPayload,
+} from '../types';
+import { toGeneratedGeometry } from './meshUtils';
+import { PIPELINE_STAGE_KEYS } from './pipeline';
+
+// Canned shapes, picked by each variation's seed
+const CANNED_SHAPES: (() => THREE.BufferGeometry)[] = [
+  () => new THREE.IcosahedronGeometry(1, 4),
+  () => new THREE.TorusKnotGeometry(0.6, 0.22, 160, 24),
+  () => new THREE.BoxGeometry(1.4, 1.4, 1.4, 4, 4, 4),
+  () => new THREE.ConeGeometry(0.9, 1.8, 48, 8),
+  () => new THREE.TorusGeometry(0.8, 0.3, 32, 64),
+];
+
+// Colours every vertex by its height so the "Colorize" toggle has something to show
+const paintByHeight = (geo: THREE.BufferGeometry, hueShift: number) => {
+  geo.computeBoundingBox();
+  const { min, max } = geo.boundingBox!;
+  const range = max.z - min.z || 1;
+  const position = geo.getAttribute('position');
+  const colors = new Float32Array(position.count * 3);
+  const color = new THREE.Color();
+  for (let i = 0; i < position.count; i++) {
+    const t = (position.getZ(i) - min.z) / range;
+    color.setHSL((0.6 - t * 0.5 + hueShift) % 1, 0.8, 0.5);
+    colors.set([color.r, color.g, color.b], i * 3);
+  }
+  geo.setAttribute('color', new THREE.BufferAttribute(colors, 3));
+};
+
+// Same seed, same mesh: the seed picks the shape and shifts its colours
+const buildCannedGeometry = (seed: number, withColors: boolean): GeneratedGeometry => {
+  const geo = CANNED_SHAPES[seed % CANNED_SHAPES.length]();
+  // three.js shapes are Y-up; the backend (and therefore the viewer) works Z-up
+  geo.rotateX(Math.PI / 2);
+  if (withColors) paintByHeight(geo, (Math.floor(seed / CANNED_SHAPES.length) % 100) / 100);
+  return toGeneratedGeometry(geo);
+};
+
+// A refined variation stays close to the mesh it was conditioned on: the seed only ripples its surface
+const buildRefinedGeometry = (conditioning: GeneratedGeometry, seed: number): GeneratedGeometry => {
+  const vertices = Float32Array.from(conditioning.vertices);
+  let cx = 0, cy = 0, cz = 0;
+  for (let i = 0; i < vertices.length; i += 3) {
+    cx += vertices[i];
+    cy += vertices[i + 1];
+    cz += vertices[i + 2];
+  }
+  const count = vertices.length / 3 || 1;
+  [cx, cy, cz] = [cx / count, cy / count, cz / count];
+  const phase = (seed % 1000) / 100;
+  for (let i = 0; i < vertices.length; i += 3) {
+    const scale = 1 + 0.06 * Math.sin(vertices[i] * 4 + phase) * Math.cos(vertices[i + 2] * 4 + phase);
+    vertices[i] = cx + (vertices[i] - cx) * scale;
+    vertices[i + 1] = cy + (vertices[i + 1] - cy) * scale;
+    vertices[i + 2] = cz + (vertices[i + 2] - cz) * scale;
+  }
+  return { vertices, faces: conditioning.faces, colors: conditioning.colors, uvs: conditioning.uvs };
+};
+
+// How long each stage takes on the mock; output time scales with the variation count
+const MOCK_STAGE_SECONDS: Record<PipelineStageKey, number> = {
+  SKETCH_PREP: 0.8,
+  MESH_PREP: 0.8,
+  PAIRING: 1.0,
+  TRAINING: 2.0,
+  OUTPUT: 0.6,
+};
+
+interface MockJob {
+  variations: number;
+  // Missing on jobs stored before seeds existed; those use the variation index
+  seeds?: number[];
+  supportsColor: boolean;
+  startedAt: number;
+  cancelled: boolean;
+}
+
+// Jobs live in localStorage so a reloaded page can reattach to them, like with the real server
+const MOCK_JOBS_KEY = 'sketch-to-3d:mock-jobs';
+
+// Conditioning meshes are too big for localStorage; after a reload the job falls back to canned shapes
+const conditioningMeshes = new Map<string, GeneratedGeometry>();
+
+const loadMockJobs = (): Record<string, MockJob> => {
+  try {
+    return JSON.parse(localStorage.getItem(MOCK_JOBS_KEY) || '{}');
+  } catch {
+    return {};
+  }
+};
+
+// Finished mock jobs are forgotten after an hour
+const MOCK_JOB_TTL_MS = 60 * 60 * 1000;
+
+const saveMockJob = (jobId: string, job: MockJob) => {
+  const jobs = Object.entries(loadMockJobs()).filter(([, other]) => Date.now() - other.startedAt < MOCK_JOB_TTL_MS);
+  localStorage.setItem(MOCK_JOBS_KEY, JSON.stringify({ ...Object.fromEntries(jobs), [jobId]: job }));
+};
+
+const stageSeconds = (key: PipelineStageKey, job: MockJob) =>
+  key === 'OUTPUT' ? MOCK_STAGE_SECONDS.OUTPUT * job.variations : MOCK_STAGE_SECONDS[key];
+
+// Derives the job's progress purely from how long ago it started
+const getMockStatus = (jobId: string, job: MockJob): JobStatusPayload => {
+  const elapsed = (Date.now() - job.startedAt) / 1000;
+  const completedStages: PipelineStageKey[] = [];
+  const stageDurations: JobStatusPayload['stageDurations'] = {};
+  let stageStart = 0;
+  let stage: PipelineStageKey | null = null;
+
+  for (const key of PIPELINE_STAGE_KEYS) {
+    const duration = stageSeconds(key, job);
+    if (elapsed >= stageStart + duration) {
+      completedStages.push(key);
+      stageDurations[key] = duration;
+    } else {
+      stage = key;
+      stageDurations[key] = elapsed - stageStart;
+      break;
+    }
+    stageStart += duration;
+  }
+
+  const totalSeconds = PIPELINE_STAGE_KEYS.reduce((sum, key) => sum + stageSeconds(key, job), 0);
+  // The output stage finishes one variation after another
+  const outputStart = totalSeconds - stageSeconds('OUTPUT', job);
+  const variations: VariationStatusPayload[] = Array.from({ length: job.variations }, (_, index) => ({
+    index,
+    state: elapsed >= outputStart + MOCK_STAGE_SECONDS.OUTPUT * (index + 1) ? 'succeeded' : 'pending',
+  }));
+  if (job.cancelled) {
+    return { jobId, state: 'cancelled', stage: null, completedStages, stageDurations, etaSeconds: null };
+  }
+  return {
+    jobId,
+    state: stage ? 'running' : 'succeeded',
+    stage,
+    completedStages,
+    stageDurations,
+    etaSeconds: Math.max(0, totalSeconds - elapsed),
+    variations,
+  };
+};
+
+const findMockJob = (jobId: string): MockJob => {
+  const job = loadMockJobs()[jobId];
+  if (!job) throw new Error(`Backend Error: Unknown job ${jobId}`);
+  return job;
+};
+
+const buildMockVariation = (jobId: string, job: MockJob, index: number): GeneratedGeometry => {
+  const seed = job.seeds?.[index] ?? index;
+  const conditioning = conditioningMeshes.get(jobId);
+  return conditioning ? buildRefinedGeometry(conditioning, seed) : buildCannedGeometry(seed, job.supportsColor);
+};
+
+/**
+ * In-browser stand-in for the GPU server. Walks each job through the real pipeline
+ * stages on a timer, ignores the sketch and prompt, and returns one canned,
+ * coloured mesh per requested variation, chosen by its seed. Variations finish one after
+ * another during the output stage. Refinements return the conditioning mesh, rippled a
+ * little per seed.
+ */
+export const createMockBackend = (): GenerationBackend => ({
+  name: 'mock',
+  submitJob: async (request: GenerationRequest, signal?: AbortSignal) => {
+    signal?.throwIfAborted();
+    const jobId = `mock-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+    saveMockJob(jobId, {
+      // Like the real server, never hand out more than the model allows
+      variations: Math.min(request.variations, request.capabilities.maxVariations),
+      seeds: request.seeds,
+      supportsColor: request.capabilities.supportsColor,
+      startedAt: Date.now(),
+      cancelled: false,
+    });
+    if (request.conditioning) conditioningMeshes.set(jobId, request.conditioning);
+    return { jobId };
+  },
+  getJobStatus: async (jobId: string, signal?: AbortSignal) => {
+    signal?.throwIfAborted();
+    return getMockStatus(jobId, findMockJob(jobId));
+  },
+  getJobResult: async (jobId: string, signal?: AbortSignal) => {
+    signal?.throwIfAborted();
+    const job = findMockJob(jobId);
+    if (getMockStatus(jobId, job).state !== 'succeeded') {
+      throw new Error(`Backend Error: Job ${jobId} has not finished`);
+    }
+    return Array.from({ length: job.variations }, (_, i) => buildMockVariation(jobId, job, i));
+  },
+  getVariationResult: async (jobId: string, index: number, signal?: AbortSignal) => {
+    signal?.throwIfAborted();
+    const job = findMockJob(jobId);
+    if (getMockStatus(jobId, job).variations?.[index]?.state !== 'succeeded') {
+      throw new Error(`Backend Error: Variation ${index + 1} of job ${jobId} has not finished`);
+    }
+    return buildMockVariation(jobId, job, index);
+  },
+  cancelJob: async (jobId: string) => {
+    saveMockJob(jobId, { ...findMockJob(jobId), cancelled: true });
+  },
+});
@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { PipelineStage } from '../types';
+import type { JobStatusPayload } from '../types';
+import { PIPELINE_STAGE_KEYS, toPipelineStatus } from './pipeline';
+
+describe('pipeline status', () => {
+  it('maps stage keys to stages and drops unknown ones', () => {
+    const [first, second] = PIPELINE_STAGE_KEYS;
+    const status = toPipelineStatus({
+      jobId: 'job',
+      state: 'running',
+      stage: second,
+      completedStages: [first, 'UNKNOWN' as typeof first],
+      stageDurations: { [first]: 3, [second]: 1 },
+      etaSeconds: 12,
+    });
+
+    expect(status.currentStage).toBe(PipelineStage[second]);
+    expect([...status.completedStages]).toEqual([PipelineStage[first]]);
+    expect(status.stageDurations).toEqual({ [PipelineStage[first]]: 3, [PipelineStage[second]]: 1 });
+    expect(status.etaSeconds).toBe(12);
+  });
+
+  it('reads a queued job without progress fields as idle', () => {
+    const payload: JobStatusPayload = { jobId: 'job', state: 'queued', stage: null };
+
+    expect(toPipelineStatus(payload)).toEqual({
+      currentStage: null,
+      completedStages: new Set(),
+      stageDurations: {},
+      etaSeconds: null,
+    });
+  });
+});
@@ -0,0 +1,38 @@
+import { PipelineStage } from '../types';
+import type { JobStatusPayload, PipelineStageKey, PipelineStatus } from '../types';
+
+// Stages in the order the backend runs them
+export const PIPELINE_STAGE_KEYS = Object.keys(PipelineStage) as PipelineStageKey[];
+export const PIPELINE_STAGES = PIPELINE_STAGE_KEYS.map((key) => PipelineStage[key]);
+
+export const createIdlePipelineStatus = (): PipelineStatus => ({
+  currentStage: null,
+  completedStages: new Set(),
+  stageDurations: {},
+  etaSeconds: null,
+});
+
+const isStageKey = (key: string): key is PipelineStageKey => key in PipelineStage;
+
+export const toPipelineStatus = (payload: JobStatusPayload): PipelineStatus => {
+  const stageDurations: PipelineStatus['stageDurations'] = {};
+  for (const [key, seconds] of Object.entries(payload.stageDurations ?? {})) {
+    if (isStageKey(key) && typeof seconds === 'number') {
+      stageDurations[PipelineStage[key]] = seconds;
+    }
+  }
+
+  return {
+    currentStage: payload.stage && isStageKey(payload.stage) ? PipelineStage[payload.stage] : null,
+    completedStages: new Set((payload.completedStages ?? []).filter(isStageKey).map((key) => PipelineStage[key])),
+    stageDurations,
+    etaSeconds: payload.etaSeconds ?? null,
+  };
+};
+
+// "7s", "1m 05s"
+export const formatDuration = (seconds: number): string => {
+  const total = Math.max(0, Math.round(seconds));
+  if (total < 60) return `${total}s`;
+  return `${Math.floor(total / 60)}m ${String(total % 60).padStart(2, '0')}s`;
+};
@@ -0,0 +1,28 @@
+import type { PromptPreset } from '../types';
+
+// Presets are stored per signed-in user, so a shared browser doesn't mix them up
+const presetsKey = (userId: string) => `sketch-to-3d:prompt-presets:${userId}`;
+
+export const loadPromptPresets = (userId: string): PromptPreset[] => {
+  try {
+    const raw = localStorage.getItem(presetsKey(userId));
+    const presets = raw ? JSON.parse(raw) : [];
+    return Array.isArray(presets) ? presets.filter((preset) => typeof preset?.name === 'string' && preset.options) : [];
+  } catch {
+    return [];
+  }
+};
+
+export const savePromptPresets = (userId: string, presets: PromptPreset[]) => {
+  try {
+    localStorage.setItem(presetsKey(userId), JSON.stringify(presets));
+  } catch (e) {
+    console.warn("Could not save prompt presets:", e);
+  }
+};
+
+// Saving under an existing name replaces that preset
+export const upsertPromptPreset = (presets: PromptPreset[], preset: PromptPreset): PromptPreset[] => [
+  ...presets.filter(({ name }) => name !== preset.name),
+  preset,
+].sort((a, b) => a.name.localeCompare(b.name));
@@ -0,0 +1,13 @@
+import type { GeneratedGeometry, RefinementStep } from '../types';
+
+// First-generation variations are round 1; each refinement adds one
+export const variationRound = (geometry: GeneratedGeometry | undefined) => (geometry?.meta?.lineage?.length ?? 0) + 1;
+
+// e.g. "2.3": the third variation of the second round
+export const formatRefinementStep = ({ round, index }: RefinementStep) => `${round}.${index + 1}`;
+
+// The lineage of variations refined from the one at `index`
+export const refinementLineage = (parent: GeneratedGeometry, index: number): RefinementStep[] => [
+  ...(parent.meta?.lineage ?? []),
+  { round: variationRound(parent), index },
+];
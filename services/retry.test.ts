@@ -0,0 +1,74 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { wait, withRetry } from './retry';
+
+const options = { retries: 4, baseDelayMs: 1000, maxDelayMs: 3000, shouldRetry: () => true };
+
+describe('withRetry', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    // Jitter picks half of each backoff step
+    vi.spyOn(Math, 'random').mockReturnValue(0.5);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('retries with exponential backoff until the operation succeeds', async () => {
+    const operation = vi.fn()
+      .mockRejectedValueOnce(new Error('first'))
+      .mockRejectedValueOnce(new Error('second'))
+      .mockResolvedValue('done');
+    const onRetry = vi.fn();
+
+    const result = withRetry(operation, { ...options, onRetry });
+    await vi.runAllTimersAsync();
+
+    await expect(result).resolves.toBe('done');
+    expect(operation).toHaveBeenCalledTimes(3);
+    expect(onRetry.mock.calls.map(([error, attempt, delayMs]) => [error.message, attempt, delayMs])).toEqual([
+      ['first', 1, 500],
+      ['second', 2, 1000],
+    ]);
+  });
+
+  it('caps the delay and rethrows the last error once the retries are used up', async () => {
+    const operation = vi.fn(async () => {
+      throw new Error(`attempt ${operation.mock.calls.length}`);
+    });
+    const onRetry = vi.fn();
+
+    const result = withRetry(operation, { ...options, onRetry }).catch((e: Error) => e);
+    await vi.runAllTimersAsync();
+
+    expect((await result).message).toBe('attempt 5');
+    expect(operation).toHaveBeenCalledTimes(5);
+    expect(onRetry.mock.calls.map(([, , delayMs]) => delayMs)).toEqual([500, 1000, 1500, 1500]);
+  });
+
+  it('rethrows at once when the error is not retryable', async () => {
+    const operation = vi.fn().mockRejectedValue(new Error('bad request'));
+
+    await expect(withRetry(operation, { ...options, shouldRetry: () => false })).rejects.toThrow('bad request');
+    expect(operation).toHaveBeenCalledTimes(1);
+  });
+
+  it('stops waiting as soon as it is aborted', async () => {
+    const controller = new AbortController();
+    const operation = vi.fn().mockRejectedValue(new Error('down'));
+
+    const result = expect(withRetry(operation, { ...options, signal: controller.signal })).rejects.toMatchObject({ name: 'AbortError' });
+    await vi.advanceTimersByTimeAsync(100);
+    controller.abort();
+
+    await result;
+    expect(operation).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('wait', () => {
+  it('rejects straight away when already aborted', async () => {
+    await expect(wait(10_000, AbortSignal.abort())).rejects.toMatchObject({ name: 'AbortError' });
+  });
+});
@@ -0,0 +1,50 @@
+export interface RetryOptions {
+  // Attempts after the first one
+  retries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  shouldRetry: (error: unknown) => boolean;
+  signal?: AbortSignal;
+  onRetry?: (error: unknown, attempt: number, delayMs: number) => void;
+}
+
+export const DEFAULT_RETRY_OPTIONS: Omit<RetryOptions, 'shouldRetry'> = {
+  retries: 4,
+  baseDelayMs: 1000,
+  maxDelayMs: 15000,
+};
+
+// Resolves after `ms`, or rejects straight away with the abort reason once `signal` fires
+export const wait = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(signal!.reason);
+  };
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  if (signal?.aborted) onAbort();
+  else signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+// Exponential backoff with "full jitter" so many clients don't retry in lockstep
+const backoffDelay = (attempt: number, { baseDelayMs, maxDelayMs }: RetryOptions) =>
+  Math.random() * Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+
+/**
+ * Runs `operation`, retrying it with exponential backoff while `shouldRetry` accepts
+ * the error. The last error is rethrown once the retries are used up.
+ */
+export const withRetry = async <T>(operation: () => Promise<T>, options: RetryOptions): Promise<T> => {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await operation();
+    } catch (e) {
+      if (options.signal?.aborted || attempt >= options.retries || !options.shouldRetry(e)) throw e;
+      const delayMs = backoffDelay(attempt, options);
+      options.onRetry?.(e, attempt + 1, delayMs);
+      await wait(delayMs, options.signal);
+    }
+  }
+};
@@ -0,0 +1,131 @@
+import type { ImagePoint, SketchAdjustParams } from '../types';
+import { loadRasterSketch, RasterSketch, rasterToFile } from './sketchRaster';
+
+// Longest side an adjusted sketch keeps; larger photos are scaled down first
+const ADJUST_RESOLUTION = 2048;
+
+// Longest side of the image shown while adjusting
+export const ADJUST_PREVIEW_RESOLUTION = 720;
+
+export const FULL_IMAGE_CORNERS: SketchAdjustParams['corners'] = [
+  { x: 0, y: 0 },
+  { x: 1, y: 0 },
+  { x: 1, y: 1 },
+  { x: 0, y: 1 },
+];
+
+export const DEFAULT_SKETCH_ADJUST: SketchAdjustParams = {
+  rotation: 0,
+  corners: FULL_IMAGE_CORNERS,
+  brightness: 0,
+  contrast: 0,
+};
+
+export const isIdentityAdjust = (params: SketchAdjustParams): boolean =>
+  params.rotation % 360 === 0 &&
+  params.brightness === 0 &&
+  params.contrast === 0 &&
+  params.corners.every((corner, i) => corner.x === FULL_IMAGE_CORNERS[i].x && corner.y === FULL_IMAGE_CORNERS[i].y);
+
+// Size of the bounding box of a width x height image rotated by `degrees`
+const rotatedSize = (width: number, height: number, degrees: number) => {
+  const radians = (degrees * Math.PI) / 180;
+  const cos = Math.abs(Math.cos(radians)), sin = Math.abs(Math.sin(radians));
+  return { width: Math.round(width * cos + height * sin), height: Math.round(width * sin + height * cos) };
+};
+
+/**
+ * Solves for the projective transform taking the four `from` points onto the four `to`
+ * points (Gaussian elimination on the usual 8x8 system). Returns the row-major 3x3 matrix.
+ */
+const solveHomography = (from: ImagePoint[], to: ImagePoint[]): number[] => {
+  const rows: number[][] = [];
+  from.forEach(({ x, y }, i) => {
+    const { x: u, y: v } = to[i];
+    rows.push([x, y, 1, 0, 0, 0, -u * x, -u * y, u]);
+    rows.push([0, 0, 0, x, y, 1, -v * x, -v * y, v]);
+  });
+  for (let col = 0; col < 8; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < 8; row++) {
+      if (Math.abs(rows[row][col]) > Math.abs(rows[pivot][col])) pivot = row;
+    }
+    if (Math.abs(rows[pivot][col]) < 1e-12) {
+      throw new Error("The crop corners are too close together. Spread them out over the sketch.");
+    }
+    [rows[col], rows[pivot]] = [rows[pivot], rows[col]];
+    for (let row = 0; row < 8; row++) {
+      if (row === col) continue;
+      const factor = rows[row][col] / rows[col][col];
+      for (let k = col; k < 9; k++) rows[row][k] -= factor * rows[col][k];
+    }
+  }
+  return [...rows.map((row, i) => row[8] / row[i]), 1];
+};
+
+// Bilinear sample; anything outside the image reads as white paper
+const sample = ({ width, height, pixels }: RasterSketch, x: number, y: number, out: Uint8ClampedArray, offset: number) => {
+  const x0 = Math.floor(x), y0 = Math.floor(y);
+  const fx = x - x0, fy = y - y0;
+  for (let channel = 0; channel < 3; channel++) {
+    let value = 0;
+    for (let k = 0; k < 4; k++) {
+      const px = x0 + (k & 1), py = y0 + (k >> 1);
+      const weight = (k & 1 ? fx : 1 - fx) * (k >> 1 ? fy : 1 - fy);
+      const inside = px >= 0 && py >= 0 && px < width && py < height;
+      value += weight * (inside ? pixels[(py * width + px) * 4 + channel] : 255);
+    }
+    out[offset + channel] = value;
+  }
+  out[offset + 3] = 255;
+};
+
+const distance = (a: ImagePoint, b: ImagePoint) => Math.hypot(a.x - b.x, a.y - b.y);
+
+/**
+ * Rotates, crops or de-skews and re-tones the sketch in one resampling pass. The output is
+ * sized from the kept quadrilateral's longer edges, so a straightened page keeps its detail.
+ */
+export const adjustSketch = (sketch: RasterSketch, params: SketchAdjustParams): RasterSketch => {
+  const rotated = rotatedSize(sketch.width, sketch.height, params.rotation);
+  const quad = params.corners.map(({ x, y }) => ({ x: x * rotated.width, y: y * rotated.height }));
+  const [tl, tr, br, bl] = quad;
+  const width = Math.max(1, Math.round(Math.max(distance(tl, tr), distance(bl, br))));
+  const height = Math.max(1, Math.round(Math.max(distance(tl, bl), distance(tr, br))));
+  const h = solveHomography(
+    [{ x: 0, y: 0 }, { x: width, y: 0 }, { x: width, y: height }, { x: 0, y: height }],
+    quad,
+  );
+
+  const radians = (params.rotation * Math.PI) / 180;
+  const cos = Math.cos(radians), sin = Math.sin(radians);
+  // Standard brightness/contrast curve around mid-grey
+  const contrastValue = params.contrast * 2.55;
+  const gain = (259 * (contrastValue + 255)) / (255 * (259 - contrastValue));
+  const lift = params.brightness * 2.55;
+
+  const pixels = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const px = x + 0.5, py = y + 0.5;
+      const w = h[6] * px + h[7] * py + h[8];
+      // Offset from the centre of the rotated image, turned back into the source image
+      const dx = (h[0] * px + h[1] * py + h[2]) / w - rotated.width / 2;
+      const dy = (h[3] * px + h[4] * py + h[5]) / w - rotated.height / 2;
+      const sx = sketch.width / 2 + dx * cos + dy * sin - 0.5;
+      const sy = sketch.height / 2 - dx * sin + dy * cos - 0.5;
+      const offset = (y * width + x) * 4;
+      sample(sketch, sx, sy, pixels, offset);
+      for (let channel = 0; channel < 3; channel++) {
+        pixels[offset + channel] = gain * (pixels[offset + channel] - 128) + 128 + lift;
+      }
+    }
+  }
+  return { width, height, pixels };
+};
+
+export const loadSketchForAdjust = (file: Blob): Promise<RasterSketch> => loadRasterSketch(file, ADJUST_RESOLUTION);
+
+// Adjusted sketches are PNGs named after the original, e.g. "photo.jpg" becomes "photo-adjusted.png"
+export const adjustedSketchFile = (sketch: RasterSketch, originalName: string): Promise<File> =>
+  rasterToFile(sketch, `${originalName.replace(/\.[^.]+$/, '')}-adjusted.png`);
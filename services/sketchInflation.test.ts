@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import type { RasterSketch } from './sketchRaster';
+import { countEdgeFaults } from './meshValidation';
+import { inflateRasterSketch } from './sketchInflation';
+
+const SIZE = 64;
+
+// White paper with the pixels `isInk` picks drawn in black
+const drawSketch = (isInk: (x: number, y: number) => boolean): RasterSketch => {
+  const pixels = new Uint8ClampedArray(SIZE * SIZE * 4).fill(255);
+  for (let y = 0; y < SIZE; y++) {
+    for (let x = 0; x < SIZE; x++) {
+      if (isInk(x, y)) pixels.fill(0, (y * SIZE + x) * 4, (y * SIZE + x) * 4 + 3);
+    }
+  }
+  return { width: SIZE, height: SIZE, pixels };
+};
+
+const radius = (x: number, y: number) => Math.hypot(x - SIZE / 2, y - SIZE / 2);
+
+const SKETCHES: [string, RasterSketch][] = [
+  ['a filled circle', drawSketch((x, y) => radius(x, y) < 20)],
+  ['a circle with a cross through it', drawSketch((x, y) =>
+    Math.abs(radius(x, y) - 20) < 1.5 || (radius(x, y) < 20 && (Math.abs(x - SIZE / 2) < 1 || Math.abs(y - SIZE / 2) < 1)))],
+  ['two blobs joined by a thin neck', drawSketch((x, y) =>
+    Math.hypot(x - 18, y - 32) < 10 || Math.hypot(x - 46, y - 32) < 10 || (x > 18 && x < 46 && Math.abs(y - 32) < 1.5))],
+];
+
+describe('sketch inflation', () => {
+  it.each(SKETCHES)('inflates %s into a closed manifold mesh', (_, sketch) => {
+    const [geometry] = inflateRasterSketch(sketch, 1);
+    expect(geometry.faces.length).toBeGreaterThan(0);
+    expect(countEdgeFaults(geometry.faces)).toEqual({ open: 0, nonManifold: 0 });
+  });
+
+  it('stores the sketch colours as linear values', () => {
+    // Mid-grey ink: sRGB 128 is about 0.216 in linear light
+    const sketch = drawSketch((x, y) => radius(x, y) < 20);
+    for (let i = 0; i < sketch.pixels.length; i += 4) {
+      if (sketch.pixels[i] === 0) sketch.pixels.fill(128, i, i + 3);
+    }
+    const [geometry] = inflateRasterSketch(sketch, 1);
+    for (const value of geometry.colors!) expect(value).toBeCloseTo(0.2158, 3);
+  });
+});
@@ -0,0 +1,216 @@
+import type { GeneratedGeometry } from '../types';
+import { extractSilhouette, loadRasterSketch, RasterSketch, Silhouette, SKETCH_MODEL_SIZE } from './sketchRaster';
+
+// Longest side of the grid the silhouette is sampled on; one vertex per grid cell
+const INFLATION_RESOLUTION = 128;
+
+// Height multiplier per variation: the first is the natural round shape, the rest flatter or puffier
+const VARIATION_PUFFINESS = [1, 0.6, 1.4, 0.35, 1.8];
+
+const SMOOTHING_PASSES = 2;
+
+// Sketch pixels are sRGB bytes; meshes carry linear 0-1 colours, as three.js renders them
+const srgbToLinear = (byte: number) => {
+  const value = byte / 255;
+  return value <= 0.04045 ? value / 12.92 : ((value + 0.055) / 1.055) ** 2.4;
+};
+
+/**
+ * Marks mask pixels that touch the outside in their 3x3 neighbourhood. Rim pixels sit at
+ * height zero and are shared by the front and back surfaces, which closes the mesh.
+ */
+const findRim = ({ width, height, mask }: Silhouette): Uint8Array => {
+  const rim = new Uint8Array(width * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (!mask[y * width + x]) continue;
+      let touchesOutside = false;
+      for (let dy = -1; dy <= 1 && !touchesOutside; dy++) {
+        for (let dx = -1; dx <= 1 && !touchesOutside; dx++) {
+          const nx = x + dx, ny = y + dy;
+          touchesOutside = nx < 0 || ny < 0 || nx >= width || ny >= height || !mask[ny * width + nx];
+        }
+      }
+      rim[y * width + x] = touchesOutside ? 1 : 0;
+    }
+  }
+  return rim;
+};
+
+/**
+ * Inflates the silhouette by solving the Poisson equation (Laplacian of u = -4, u = 0 on the
+ * rim) with successive over-relaxation and taking sqrt(u). For a disc this gives an exact
+ * hemisphere and for a long stroke a round tube, which is the Teddy-style look we want.
+ */
+const solveHeights = (silhouette: Silhouette, rim: Uint8Array): Float32Array => {
+  const { width, height, mask } = silhouette;
+  const u = new Float32Array(width * height);
+  const interior: number[] = [];
+  for (let i = 0; i < mask.length; i++) {
+    if (mask[i] && !rim[i]) interior.push(i);
+  }
+
+  const omega = 1.9;
+  const maxIterations = 2 * Math.max(width, height) + 100;
+  for (let iteration = 0; iteration < maxIterations; iteration++) {
+    let maxChange = 0;
+    for (const i of interior) {
+      // Interior pixels never sit on the image border, so all four neighbours exist
+      const target = (u[i - 1] + u[i + 1] + u[i - width] + u[i + width] + 4) / 4;
+      const change = omega * (target - u[i]);
+      u[i] += change;
+      maxChange = Math.max(maxChange, Math.abs(change));
+    }
+    if (maxChange < 1e-3) break;
+  }
+  return u.map(Math.sqrt);
+};
+
+// Pulls every vertex towards the average of its neighbours to soften the pixel staircase
+const smooth = (vertices: Float32Array, faces: Uint32Array, passes: number) => {
+  const count = vertices.length / 3;
+  const sums = new Float32Array(vertices.length);
+  const degree = new Uint32Array(count);
+  for (let pass = 0; pass < passes; pass++) {
+    sums.fill(0);
+    degree.fill(0);
+    for (let f = 0; f < faces.length; f += 3) {
+      for (let k = 0; k < 3; k++) {
+        const a = faces[f + k], b = faces[f + ((k + 1) % 3)];
+        for (let axis = 0; axis < 3; axis++) {
+          sums[a * 3 + axis] += vertices[b * 3 + axis];
+          sums[b * 3 + axis] += vertices[a * 3 + axis];
+        }
+        degree[a]++;
+        degree[b]++;
+      }
+    }
+    for (let v = 0; v < count; v++) {
+      if (!degree[v]) continue;
+      for (let axis = 0; axis < 3; axis++) {
+        const average = sums[v * 3 + axis] / degree[v];
+        vertices[v * 3 + axis] += 0.5 * (average - vertices[v * 3 + axis]);
+      }
+    }
+  }
+};
+
+/**
+ * Builds a closed mesh from a silhouette and its heights. The sketch lies in the XZ plane
+ * (Z up, like backend meshes) with the front surface facing -Y and the back facing +Y.
+ *
+ * Both surfaces are triangulated over the grid cells inside the silhouette and share the
+ * rim vertices, which sit at height zero. An edge between two rim vertices that isn't on the
+ * outline (across a one-pixel neck, say) would then belong to two front and two back
+ * triangles, so it is split at a midpoint with its own, slightly raised front and back
+ * vertices. That leaves every edge in exactly two triangles.
+ */
+export const buildInflatedMesh = (
+  sketch: RasterSketch,
+  silhouette: Silhouette,
+  rim: Uint8Array,
+  heights: Float32Array,
+  puffiness: number,
+): GeneratedGeometry => {
+  const { width, height, mask } = silhouette;
+  const scale = SKETCH_MODEL_SIZE / Math.max(width, height);
+  const front = new Int32Array(width * height).fill(-1);
+  const back = new Int32Array(width * height).fill(-1);
+  const vertices: number[] = [];
+  const colors: number[] = [];
+  const uvs: number[] = [];
+
+  // Vertex halfway between pixels `a` and `b` (the same pixel twice for a grid vertex)
+  const addVertex = (a: number, b: number, depth: number) => {
+    const x = ((a % width) + (b % width)) / 2;
+    const y = (Math.floor(a / width) + Math.floor(b / width)) / 2;
+    vertices.push((x - width / 2) * scale, depth * scale, (height / 2 - y) * scale);
+    for (let channel = 0; channel < 3; channel++) {
+      colors.push((srgbToLinear(sketch.pixels[a * 4 + channel]) + srgbToLinear(sketch.pixels[b * 4 + channel])) / 2);
+    }
+    uvs.push(x / Math.max(1, width - 1), 1 - y / Math.max(1, height - 1));
+    return vertices.length / 3 - 1;
+  };
+  for (let i = 0; i < mask.length; i++) {
+    if (!mask[i]) continue;
+    front[i] = addVertex(i, i, -heights[i] * puffiness);
+    back[i] = rim[i] ? front[i] : addVertex(i, i, heights[i] * puffiness);
+  }
+
+  // Front triangles as pixel indices, two per grid cell inside the silhouette
+  const triangles: number[] = [];
+  for (let y = 0; y < height - 1; y++) {
+    for (let x = 0; x < width - 1; x++) {
+      const p00 = y * width + x, p10 = p00 + 1, p01 = p00 + width, p11 = p01 + 1;
+      if (!mask[p00] || !mask[p10] || !mask[p01] || !mask[p11]) continue;
+      triangles.push(p00, p01, p10, p10, p01, p11);
+    }
+  }
+
+  const pixelCount = width * height;
+  const edgeKey = (a: number, b: number) => (a < b ? a * pixelCount + b : b * pixelCount + a);
+  const edgeTriangles = new Map<number, number>();
+  for (let t = 0; t < triangles.length; t += 3) {
+    for (let k = 0; k < 3; k++) {
+      const key = edgeKey(triangles[t + k], triangles[t + ((k + 1) % 3)]);
+      edgeTriangles.set(key, (edgeTriangles.get(key) ?? 0) + 1);
+    }
+  }
+  // Half a pixel of height keeps the midpoint's front and back apart
+  const midpoints = new Map<number, [number, number]>();
+  const midpoint = (a: number, b: number) => {
+    const key = edgeKey(a, b);
+    if (!rim[a] || !rim[b] || edgeTriangles.get(key) !== 2) return null;
+    if (!midpoints.has(key)) midpoints.set(key, [addVertex(a, b, -0.5 * puffiness), addVertex(a, b, 0.5 * puffiness)]);
+    return midpoints.get(key)!;
+  };
+
+  const faces: number[] = [];
+  for (let t = 0; t < triangles.length; t += 3) {
+    // The triangle's outline, with the midpoints of split edges inserted, as [front, back] vertices
+    const outline: [number, number][] = [];
+    let fanFrom = -1;
+    for (let k = 0; k < 3; k++) {
+      const a = triangles[t + k], b = triangles[t + ((k + 1) % 3)];
+      outline.push([front[a], back[a]]);
+      const split = midpoint(a, b);
+      if (split) {
+        if (fanFrom < 0) fanFrom = outline.length;
+        outline.push(split);
+      }
+    }
+    // Fanning from a midpoint adds no new edge between two rim vertices
+    const start = Math.max(0, fanFrom);
+    for (let k = 1; k + 1 < outline.length; k++) {
+      const [a, b, c] = [outline[start], outline[(start + k) % outline.length], outline[(start + k + 1) % outline.length]];
+      faces.push(a[0], b[0], c[0]);
+      faces.push(a[1], c[1], b[1]);
+    }
+  }
+
+  const positions = Float32Array.from(vertices);
+  const indices = Uint32Array.from(faces);
+  smooth(positions, indices, SMOOTHING_PASSES);
+  return { vertices: positions, faces: indices, colors: Float32Array.from(colors), uvs: Float32Array.from(uvs) };
+};
+
+/**
+ * Offline generator: turns the sketch's closed outline into smooth inflated meshes, one per
+ * variation with increasing or decreasing puffiness. Needs no network at all.
+ */
+export const inflateSketch = async (file: Blob, variations: number): Promise<GeneratedGeometry[]> =>
+  inflateRasterSketch(await loadRasterSketch(file, INFLATION_RESOLUTION), variations);
+
+// The inflation itself, on a sketch that is already rasterised
+export const inflateRasterSketch = (sketch: RasterSketch, variations: number): GeneratedGeometry[] => {
+  const silhouette = extractSilhouette(sketch);
+  const rim = findRim(silhouette);
+  const heights = solveHeights(silhouette, rim);
+
+  const geometries = Array.from({ length: variations }, (_, i) =>
+    buildInflatedMesh(sketch, silhouette, rim, heights, VARIATION_PUFFINESS[i % VARIATION_PUFFINESS.length]));
+  if (geometries[0].faces.length === 0) {
+    throw new Error("The sketch's shape is too thin to inflate. Try drawing a larger, filled outline.");
+  }
+  return geometries;
+};
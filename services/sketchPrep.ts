@@ -0,0 +1,198 @@
+import type { SketchPrepParams } from '../types';
+import { floodFill, loadRasterSketch, luminance, RasterSketch, rasterToFile } from './sketchRaster';
+
+// Longest side of the cleaned sketch; photos from phones are scaled down to this
+const PREP_RESOLUTION = 1024;
+
+// Ink components smaller than this fraction of the image are paper texture or dust
+const SPECK_FRACTION = 0.00005;
+
+export const DEFAULT_SKETCH_PREP: SketchPrepParams = {
+  detection: 'threshold',
+  threshold: 12,
+  windowSize: 6,
+  removeBackground: true,
+  lineWeight: 0,
+};
+
+const toGrey = ({ width, height, pixels }: RasterSketch): Float32Array => {
+  const grey = new Float32Array(width * height);
+  for (let i = 0; i < grey.length; i++) grey[i] = luminance(pixels, i);
+  return grey;
+};
+
+// Summed-area table with an extra zero row and column, for O(1) box averages
+const integralImage = (values: Float32Array, width: number, height: number): Float64Array => {
+  const stride = width + 1;
+  const sums = new Float64Array(stride * (height + 1));
+  for (let y = 0; y < height; y++) {
+    let row = 0;
+    for (let x = 0; x < width; x++) {
+      row += values[y * width + x];
+      sums[(y + 1) * stride + x + 1] = sums[y * stride + x + 1] + row;
+    }
+  }
+  return sums;
+};
+
+/**
+ * Bradley-Roth adaptive threshold: a pixel is ink when it is `threshold` percent darker than
+ * the average of the window around it. Comparing against the local average instead of a
+ * fixed level is what cancels out shadows, uneven lighting and colour casts.
+ */
+const adaptiveThreshold = (grey: Float32Array, width: number, height: number, params: SketchPrepParams): Uint8Array => {
+  const sums = integralImage(grey, width, height);
+  const stride = width + 1;
+  const half = Math.max(1, Math.round((Math.max(width, height) * params.windowSize) / 200));
+  const ratio = 1 - params.threshold / 100;
+  const ink = new Uint8Array(width * height);
+  for (let y = 0; y < height; y++) {
+    const y0 = Math.max(0, y - half), y1 = Math.min(height, y + half + 1);
+    for (let x = 0; x < width; x++) {
+      const x0 = Math.max(0, x - half), x1 = Math.min(width, x + half + 1);
+      const sum = sums[y1 * stride + x1] - sums[y0 * stride + x1] - sums[y1 * stride + x0] + sums[y0 * stride + x0];
+      const mean = sum / ((x1 - x0) * (y1 - y0));
+      ink[y * width + x] = grey[y * width + x] < mean * ratio ? 1 : 0;
+    }
+  }
+  return ink;
+};
+
+/**
+ * Sobel edge extraction on a lightly blurred image. Useful for shaded or filled sketches,
+ * where thresholding would keep the whole dark area rather than its outline.
+ */
+const extractEdges = (grey: Float32Array, width: number, height: number, params: SketchPrepParams): Uint8Array => {
+  const blurred = new Float32Array(grey.length);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let sum = 0, count = 0;
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          const nx = x + dx, ny = y + dy;
+          if (nx < 0 || ny < 0 || nx >= width || ny >= height) continue;
+          sum += grey[ny * width + nx];
+          count++;
+        }
+      }
+      blurred[y * width + x] = sum / count;
+    }
+  }
+
+  const magnitude = new Float32Array(grey.length);
+  let strongest = 0;
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const at = (dx: number, dy: number) => blurred[(y + dy) * width + x + dx];
+      const gx = at(1, -1) + 2 * at(1, 0) + at(1, 1) - at(-1, -1) - 2 * at(-1, 0) - at(-1, 1);
+      const gy = at(-1, 1) + 2 * at(0, 1) + at(1, 1) - at(-1, -1) - 2 * at(0, -1) - at(1, -1);
+      const value = Math.hypot(gx, gy);
+      magnitude[y * width + x] = value;
+      strongest = Math.max(strongest, value);
+    }
+  }
+
+  const cutoff = (strongest * params.threshold) / 100;
+  const ink = new Uint8Array(grey.length);
+  for (let i = 0; i < ink.length; i++) ink[i] = strongest > 0 && magnitude[i] > cutoff ? 1 : 0;
+  return ink;
+};
+
+// Clears ink components that are specks or that touch the image border (table, shadows, page edge)
+const removeBackground = (ink: Uint8Array, width: number, height: number) => {
+  const minSize = Math.max(4, Math.round(width * height * SPECK_FRACTION));
+  const visited = new Uint8Array(ink.length);
+  for (let start = 0; start < ink.length; start++) {
+    if (!ink[start] || visited[start]) continue;
+    const component = floodFill(width, height, visited, [start], (i) => ink[i] === 1);
+    const touchesBorder = component.some((i) => {
+      const x = i % width, y = (i - x) / width;
+      return x === 0 || y === 0 || x === width - 1 || y === height - 1;
+    });
+    if (touchesBorder || component.length < minSize) {
+      for (const i of component) ink[i] = 0;
+    }
+  }
+};
+
+/**
+ * Zhang-Suen thinning: peels strokes down to one-pixel centre lines while keeping them
+ * connected, so every stroke can be redrawn at the same width.
+ */
+const thin = (ink: Uint8Array, width: number, height: number) => {
+  const get = (x: number, y: number) => (x >= 0 && y >= 0 && x < width && y < height ? ink[y * width + x] : 0);
+  let changed = true;
+  while (changed) {
+    changed = false;
+    for (let step = 0; step < 2; step++) {
+      const removals: number[] = [];
+      for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+          if (!ink[y * width + x]) continue;
+          // Neighbours clockwise from north
+          const p = [get(x, y - 1), get(x + 1, y - 1), get(x + 1, y), get(x + 1, y + 1), get(x, y + 1), get(x - 1, y + 1), get(x - 1, y), get(x - 1, y - 1)];
+          const neighbours = p.reduce((sum, v) => sum + v, 0);
+          if (neighbours < 2 || neighbours > 6) continue;
+          let transitions = 0;
+          for (let k = 0; k < 8; k++) if (!p[k] && p[(k + 1) % 8]) transitions++;
+          if (transitions !== 1) continue;
+          const [n, , e, , s, , w] = p;
+          if (step === 0 ? n * e * s || e * s * w : n * e * w || n * s * w) continue;
+          removals.push(y * width + x);
+        }
+      }
+      for (const i of removals) ink[i] = 0;
+      if (removals.length > 0) changed = true;
+    }
+  }
+};
+
+// Stamps a disc of the given diameter on every skeleton pixel
+const dilate = (skeleton: Uint8Array, width: number, height: number, diameter: number): Uint8Array => {
+  const radius = (diameter - 1) / 2;
+  const reach = Math.ceil(radius);
+  const out = new Uint8Array(skeleton.length);
+  for (let i = 0; i < skeleton.length; i++) {
+    if (!skeleton[i]) continue;
+    const x = i % width, y = (i - x) / width;
+    for (let dy = -reach; dy <= reach; dy++) {
+      for (let dx = -reach; dx <= reach; dx++) {
+        const nx = x + dx, ny = y + dy;
+        if (nx < 0 || ny < 0 || nx >= width || ny >= height || dx * dx + dy * dy > radius * radius + 0.5) continue;
+        out[ny * width + nx] = 1;
+      }
+    }
+  }
+  return out;
+};
+
+/**
+ * The SKETCH_PREP stage, run before upload: separates strokes from paper, optionally removes
+ * background clutter and evens out line weight. The result is black lines on pure white.
+ */
+export const preprocessSketch = (sketch: RasterSketch, params: SketchPrepParams): RasterSketch => {
+  const { width, height } = sketch;
+  const grey = toGrey(sketch);
+  let ink = params.detection === 'edges'
+    ? extractEdges(grey, width, height, params)
+    : adaptiveThreshold(grey, width, height, params);
+  if (params.removeBackground) removeBackground(ink, width, height);
+  if (params.lineWeight > 0) {
+    thin(ink, width, height);
+    ink = dilate(ink, width, height, params.lineWeight);
+  }
+
+  const pixels = new Uint8ClampedArray(width * height * 4);
+  for (let i = 0; i < ink.length; i++) {
+    const value = ink[i] ? 0 : 255;
+    pixels[i * 4] = pixels[i * 4 + 1] = pixels[i * 4 + 2] = value;
+    pixels[i * 4 + 3] = 255;
+  }
+  return { width, height, pixels };
+};
+
+export const loadSketchForPrep = (file: Blob): Promise<RasterSketch> => loadRasterSketch(file, PREP_RESOLUTION);
+
+// Cleaned sketches are PNGs named after the original, e.g. "photo.jpg" becomes "photo-clean.png"
+export const preparedSketchFile = (sketch: RasterSketch, originalName: string): Promise<File> =>
+  rasterToFile(sketch, `${originalName.replace(/\.[^.]+$/, '')}-clean.png`);
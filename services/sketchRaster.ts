@@ -0,0 +1,197 @@
+// Pixel-level helpers shared by the in-browser generators
+
+// Size of a generated mesh's longer side, matching the scale of backend meshes
+export const SKETCH_MODEL_SIZE = 2;
+
+export interface RasterSketch {
+  width: number;
+  height: number;
+  // RGBA, composited onto white so transparent PNGs read as paper
+  pixels: Uint8ClampedArray;
+}
+
+export interface Silhouette {
+  width: number;
+  height: number;
+  // 1 for pixels inside the drawn shape, 0 for background
+  mask: Uint8Array;
+}
+
+/**
+ * Decodes an image file and scales it so its longer side is at most `maxSize` pixels.
+ */
+export const loadRasterSketch = async (file: Blob, maxSize: number): Promise<RasterSketch> => {
+  const bitmap = await createImageBitmap(file);
+  const scale = Math.min(1, maxSize / Math.max(bitmap.width, bitmap.height));
+  const width = Math.max(1, Math.round(bitmap.width * scale));
+  const height = Math.max(1, Math.round(bitmap.height * scale));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d', { willReadFrequently: true });
+  if (!context) throw new Error("Could not create a 2D canvas to read the sketch.");
+  context.fillStyle = '#FFFFFF';
+  context.fillRect(0, 0, width, height);
+  context.drawImage(bitmap, 0, 0, width, height);
+  bitmap.close();
+
+  return { width, height, pixels: context.getImageData(0, 0, width, height).data };
+};
+
+// Encodes pixels as a PNG file, e.g. to send a processed sketch in place of the original
+export const rasterToFile = async ({ width, height, pixels }: RasterSketch, name: string): Promise<File> => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error("Could not create a 2D canvas to write the sketch.");
+  context.putImageData(new ImageData(new Uint8ClampedArray(pixels), width, height), 0, 0);
+  const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, 'image/png'));
+  if (!blob) throw new Error("Could not encode the sketch as PNG.");
+  return new File([blob], name, { type: 'image/png' });
+};
+
+export const luminance = (pixels: Uint8ClampedArray, index: number) =>
+  0.299 * pixels[index * 4] + 0.587 * pixels[index * 4 + 1] + 0.114 * pixels[index * 4 + 2];
+
+/**
+ * 4-connected flood fill from `seeds` through pixels where `passable` holds. Filled pixels
+ * are marked in `visited` (which also blocks the fill) and returned.
+ */
+export const floodFill = (
+  width: number,
+  height: number,
+  visited: Uint8Array,
+  seeds: number[],
+  passable: (index: number) => boolean = () => true,
+): number[] => {
+  const filled: number[] = [];
+  const visit = (index: number) => {
+    if (!visited[index] && passable(index)) {
+      visited[index] = 1;
+      filled.push(index);
+    }
+  };
+  seeds.forEach(visit);
+  // `filled` doubles as the work queue
+  for (let cursor = 0; cursor < filled.length; cursor++) {
+    const index = filled[cursor];
+    const x = index % width;
+    if (x > 0) visit(index - 1);
+    if (x < width - 1) visit(index + 1);
+    if (index >= width) visit(index - width);
+    if (index < (height - 1) * width) visit(index + width);
+  }
+  return filled;
+};
+
+const borderPixels = (width: number, height: number): number[] => {
+  const border: number[] = [];
+  for (let x = 0; x < width; x++) border.push(x, (height - 1) * width + x);
+  for (let y = 0; y < height; y++) border.push(y * width, y * width + width - 1);
+  return border;
+};
+
+/**
+ * Finds the drawn shape: everything the paper can't reach from the image border
+ * (strokes plus the areas they close off). Only the largest connected piece is kept,
+ * so stray marks and specks don't become separate blobs.
+ */
+export const extractSilhouette = (sketch: RasterSketch, inkThreshold = 160): Silhouette => {
+  const { width, height, pixels } = sketch;
+
+  const claimed = new Uint8Array(width * height);
+  floodFill(width, height, claimed, borderPixels(width, height), (index) => luminance(pixels, index) >= inkThreshold);
+
+  // Whatever the paper didn't reach splits into components; keep the biggest
+  let largest: number[] = [];
+  for (let start = 0; start < width * height; start++) {
+    if (claimed[start]) continue;
+    const component = floodFill(width, height, claimed, [start]);
+    if (component.length > largest.length) largest = component;
+  }
+
+  if (largest.length === 0) {
+    throw new Error("No closed shape found in the sketch. Make sure the outline is drawn in a dark colour.");
+  }
+  const mask = new Uint8Array(width * height);
+  for (const index of largest) mask[index] = 1;
+  return { width, height, mask };
+};
+
+/**
+ * Fills the sketch with the even-odd rule, so nested outlines become holes: a ring drawn
+ * as two circles gives a washer, not a disc. Every stroke counts as solid. Regions are
+ * levelled by how many strokes separate them from the paper at the image border.
+ */
+export const extractEvenOddMask = (sketch: RasterSketch, inkThreshold = 160): Silhouette => {
+  const { width, height, pixels } = sketch;
+  const count = width * height;
+  const isInk = new Uint8Array(count);
+  for (let i = 0; i < count; i++) isInk[i] = luminance(pixels, i) < inkThreshold ? 1 : 0;
+
+  // Label paper and ink components separately
+  const labels = new Int32Array(count);
+  const componentIsInk: boolean[] = [];
+  const visited = new Uint8Array(count);
+  for (let start = 0; start < count; start++) {
+    if (visited[start]) continue;
+    const label = componentIsInk.length;
+    componentIsInk.push(!!isInk[start]);
+    for (const index of floodFill(width, height, visited, [start], (i) => isInk[i] === isInk[start])) {
+      labels[index] = label;
+    }
+  }
+
+  // Component adjacency across 4-neighbour pixel pairs
+  const neighbours = componentIsInk.map(() => new Set<number>());
+  const link = (a: number, b: number) => {
+    if (labels[a] !== labels[b]) {
+      neighbours[labels[a]].add(labels[b]);
+      neighbours[labels[b]].add(labels[a]);
+    }
+  };
+  for (let i = 0; i < count; i++) {
+    if (i % width < width - 1) link(i, i + 1);
+    if (i < count - width) link(i, i + width);
+  }
+
+  // 0-1 BFS: stepping from a stroke onto paper enters one level deeper
+  const level = new Int32Array(componentIsInk.length).fill(-1);
+  const deque: number[] = [];
+  for (const index of borderPixels(width, height)) {
+    if (level[labels[index]] === -1) {
+      level[labels[index]] = 0;
+      deque.push(labels[index]);
+    }
+  }
+  const settled = new Uint8Array(componentIsInk.length);
+  while (deque.length > 0) {
+    const component = deque.shift()!;
+    if (settled[component]) continue;
+    settled[component] = 1;
+    for (const next of neighbours[component]) {
+      const step = componentIsInk[component] && !componentIsInk[next] ? 1 : 0;
+      const candidate = level[component] + step;
+      if (level[next] === -1 || candidate < level[next]) {
+        level[next] = candidate;
+        if (step) deque.push(next);
+        else deque.unshift(next);
+      }
+    }
+  }
+
+  const mask = new Uint8Array(count);
+  let filled = 0;
+  for (let i = 0; i < count; i++) {
+    if (isInk[i] || level[labels[i]] % 2 === 1) {
+      mask[i] = 1;
+      filled++;
+    }
+  }
+  if (filled === 0) {
+    throw new Error("The sketch is empty. Draw a closed outline in a dark colour.");
+  }
+  return { width, height, mask };
+};
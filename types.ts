@@ -6,21 +6,278 @@ export enum PipelineStage {
   OUTPUT = "Generating Output Mesh",
 }
 
+// Stage names as they travel over the wire (e.g. "SKETCH_PREP")
+export type PipelineStageKey = keyof typeof PipelineStage;
+
 export interface PipelineStatus {
   currentStage: PipelineStage | null;
   completedStages: Set<PipelineStage>;
+  // Seconds spent in each stage so far; the current stage keeps counting
+  stageDurations: Partial<Record<PipelineStage, number>>;
+  etaSeconds: number | null;
 }
 
 // --- NEW: Added colors to the geometry type ---
+// Typed arrays come straight from the binary transport; plain arrays from the JSON fallback
 export type GeneratedGeometry = {
-  vertices: number[];
-  faces: number[];
-  uvs?: number[];
-  colors?: number[];
+  vertices: number[] | Float32Array;
+  faces: number[] | Uint32Array;
+  uvs?: number[] | Float32Array;
+  colors?: number[] | Float32Array;
+  meta?: VariationMeta;
 };
 
+// --- Structured prompt controls ---
+export type StylePreset = 'none' | 'low-poly' | 'organic' | 'hard-surface' | 'character';
+export type DetailLevel = 'low' | 'medium' | 'high';
+
+export interface PromptOptions {
+  style: StylePreset;
+  // What the model should avoid, e.g. "thin spikes, floating parts"
+  negativePrompt: string;
+  detail: DetailLevel;
+}
+
+// A named prompt plus options that a user saved for reuse
+export interface PromptPreset {
+  name: string;
+  prompt: string;
+  options: PromptOptions;
+}
+
+// Everything needed to reproduce one backend variation exactly
+export interface GenerationParams {
+  // As sent, after falling back to the default prompt
+  prompt: string;
+  options: PromptOptions;
+  seed: number;
+  // Position of the variation in its run; reusing the seed puts it back in the same slot
+  index: number;
+  model: ModelId;
+  variations: number;
+  // SHA-256 (hex) of the sketch views sent, front first
+  sketchHash: string;
+}
+
+// Which generator produced a variation
+export type VariationSource = 'backend' | 'offline-inflation' | 'contour-extrude' | 'contour-revolve';
+
+// One variation a refinement started from: its round (1 is the first generation) and position there
+export interface RefinementStep {
+  round: number;
+  index: number;
+}
+
+// Where a variation came from, recorded when it arrives
+export interface VariationMeta {
+  source: VariationSource;
+  // Set for backend variations
+  model?: ModelId;
+  params?: GenerationParams;
+  // The variations this one was refined from, oldest first; missing for a first round
+  lineage?: RefinementStep[];
+}
+
 // Shared Types for Workspace
 export type WorkflowStep = 'upload' | 'generating' | 'results';
 export type ModelId = 'gemini-2.5-pro' | 'gemini-2.5-flash';
+
+export interface ModelCapabilities {
+  label: string;
+  description: string;
+  maxVariations: number;
+  supportsColor: boolean;
+}
 export type ShadingMode = 'shaded' | 'wireframe';
-export type LightingPreset = 'studio' | 'outdoor';
\ No newline at end of file
+export type LightingPreset = 'studio' | 'outdoor';
+// Binary is compact and quick for slicers; ASCII is human-readable
+export type StlFormat = 'binary' | 'ascii';
+// Binary little-endian for large meshes; ASCII for scripts that parse the text
+export type PlyFormat = 'binary' | 'ascii';
+// A single binary file, or JSON with the buffers embedded
+export type GltfFormat = 'glb' | 'gltf';
+export type ExportFormat = 'obj' | 'stl' | 'ply' | '3mf' | 'gltf' | 'usdz';
+
+// --- Export size and orientation ---
+export type LengthUnit = 'mm' | 'cm' | 'in';
+// Keep the generated size (one model unit per length unit), or scale uniformly to a target
+export type ExportSizing = 'original' | 'height' | 'width' | 'print-bed';
+// The up axis written by formats that don't define one (OBJ, STL, PLY)
+export type UpAxis = 'z' | 'y';
+
+export interface ExportSettings {
+  unit: LengthUnit;
+  sizing: ExportSizing;
+  // Target height or width, in `unit`
+  targetSize: number;
+  // Printable width, depth and height, in `unit`
+  printBed: [number, number, number];
+  upAxis: UpAxis;
+}
+
+// --- Contour modelling (extrude / revolve) ---
+export type ContourOperation = 'extrude' | 'revolve';
+export type RevolveAxis = 'vertical' | 'horizontal';
+
+export interface ExtrudeParams {
+  // Model units; the sketch's longer side is 2 units
+  depth: number;
+}
+
+export interface RevolveParams {
+  axis: RevolveAxis;
+  // Where the axis sits across the shape, 0-100% from its left (or bottom) edge
+  axisPosition: number;
+  // Sweep in degrees; below 360 cuts out a wedge, capped at both ends
+  angle: number;
+  segments: number;
+}
+
+export type ContourModelingRequest =
+  | { operation: 'extrude'; params: ExtrudeParams }
+  | { operation: 'revolve'; params: RevolveParams };
+
+// --- Image adjustment after upload ---
+// A position in an image as 0-1 fractions of its width and height
+export interface ImagePoint {
+  x: number;
+  y: number;
+}
+
+export interface SketchAdjustParams {
+  // Clockwise, in degrees: quarter turns plus fine straightening
+  rotation: number;
+  // Area to keep in the rotated image, clockwise from top-left. A rectangle crops; any other
+  // quadrilateral (a sheet of paper photographed at an angle) is warped back to a rectangle.
+  corners: [ImagePoint, ImagePoint, ImagePoint, ImagePoint];
+  // -100 to 100, 0 leaves the image unchanged
+  brightness: number;
+  contrast: number;
+}
+
+// --- Sketch preprocessing (the SKETCH_PREP stage, run in the browser) ---
+// How strokes are told apart from paper: darker than their surroundings, or strong gradients
+export type InkDetection = 'threshold' | 'edges';
+
+export interface SketchPrepParams {
+  detection: InkDetection;
+  // Percent darker than the local average (threshold) or percent of the strongest gradient (edges)
+  threshold: number;
+  // Side of the local averaging window, as a percentage of the sketch's longer side
+  windowSize: number;
+  // Drops specks and shadows or table edges touching the photo's border
+  removeBackground: boolean;
+  // Stroke width in pixels after normalisation; 0 keeps strokes as drawn
+  lineWeight: number;
+}
+
+// --- Multi-view sketches ---
+// Orthographic views a sketch can be drawn from; the front view is the main sketch
+export type SketchView = 'front' | 'side' | 'top';
+export type ExtraSketchView = Exclude<SketchView, 'front'>;
+
+export interface SketchViewImage {
+  file: File;
+  // Data URL used for thumbnails
+  preview: string;
+}
+
+// --- Streamed results ---
+// Where each requested variation of the current run is; 'ready' ones are in the results list
+export type VariationSlotState = 'pending' | 'ready' | 'failed';
+
+export interface VariationSlot {
+  state: VariationSlotState;
+  // Why the variation failed, as reported by the backend or validation
+  error?: string;
+}
+
+// --- Batch generation ---
+export type BatchItemStatus = 'pending' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+// One sketch in the batch queue, generated as its own backend job
+export interface BatchItem {
+  id: string;
+  file: File;
+  // Object URL for the thumbnail; revoked when the item is removed
+  preview: string;
+  prompt: string;
+  variations: number;
+  status: BatchItemStatus;
+  // Live progress while running
+  pipelineStatus: PipelineStatus | null;
+  results: GeneratedGeometry[];
+  // Why the item failed, or what validation repaired
+  message: string | null;
+}
+
+// --- Generation API contract ---
+export interface GenerationRequest {
+  // The front view
+  sketch: File;
+  extraViews: Partial<Record<ExtraSketchView, File>>;
+  prompt: string;
+  options: PromptOptions;
+  variations: number;
+  // One per variation; the same seed, sketch and parameters must give the same mesh
+  seeds: number[];
+  model: ModelId;
+  capabilities: ModelCapabilities;
+  // A previous variation being refined; new variations should stay close to it
+  conditioning?: GeneratedGeometry;
+}
+
+// A single mesh exactly as the backend serialises it
+export interface MeshPayload {
+  vertices: number[];
+  faces: number[];
+  uvs?: number[];
+  colors?: number[];
+}
+
+export type GenerationResponse = MeshPayload[];
+
+export type JobState = 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+export interface JobSubmission {
+  jobId: string;
+}
+
+export type VariationState = 'pending' | 'succeeded' | 'failed';
+
+// One variation's progress, reported by servers that hand out variations as they finish
+export interface VariationStatusPayload {
+  index: number;
+  state: VariationState;
+  error?: string;
+}
+
+// Body of GET /jobs/{jobId}
+export interface JobStatusPayload {
+  jobId: string;
+  state: JobState;
+  stage: PipelineStageKey | null;
+  // Progress fields may be left out, e.g. while the job is still queued
+  completedStages?: PipelineStageKey[];
+  stageDurations?: Partial<Record<PipelineStageKey, number>>;
+  etaSeconds?: number | null;
+  error?: string;
+  // Missing when the server only returns all variations at once
+  variations?: VariationStatusPayload[];
+}
+
+export interface GenerationErrorBody {
+  detail?: string;
+}
+
+// Anything that can turn a sketch into meshes (the GPU server, the local mock, ...)
+export interface GenerationBackend {
+  name: string;
+  submitJob: (request: GenerationRequest, signal?: AbortSignal) => Promise<JobSubmission>;
+  getJobStatus: (jobId: string, signal?: AbortSignal) => Promise<JobStatusPayload>;
+  getJobResult: (jobId: string, signal?: AbortSignal) => Promise<GeneratedGeometry[]>;
+  // One finished variation of a job that reports per-variation progress
+  getVariationResult: (jobId: string, index: number, signal?: AbortSignal) => Promise<GeneratedGeometry>;
+  // Asks the backend to stop working on a job; resolves once the request is acknowledged
+  cancelJob: (jobId: string) => Promise<void>;
+}